@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Data-oblivious graph routines over encrypted edges
+/// @dev Linked into InsiderRingAnalysis and executed through DELEGATECALL, so every FHE
+/// operation and ACL grant is made on behalf of the calling contract. Dense edge flags are
+/// row-major n x n (edges[i * n + j] = edge i -> j); sparse incidence flags hold n entries per
+/// stored edge (fromIs[e * n + i] = edge e leaves node i, toIs[e * n + j] = edge e enters node j).
+library EncryptedGraph {
+    /// @notice Nodes reachable from `frontier` within `rounds` hops over dense edge flags
+    /// @dev `rounds` encrypted boolean matrix-vector products, touching every cell in every
+    /// round so the access pattern reveals nothing about the graph
+    function reachability(
+        ebool[] memory edges,
+        uint256 n,
+        ebool[] memory frontier,
+        uint256 rounds
+    ) public returns (ebool[] memory reached) {
+        require(rounds > 0 && rounds <= n, "Invalid rounds");
+        
+        reached = frontier;
+        for (uint r = 0; r < rounds; r++) {
+            ebool[] memory next = new ebool[](n);
+            for (uint j = 0; j < n; j++) {
+                ebool acc = reached[j];
+                for (uint i = 0; i < n; i++) {
+                    acc = FHE.or(acc, FHE.and(reached[i], edges[i * n + j]));
+                }
+                next[j] = acc;
+            }
+            reached = next;
+        }
+    }
+    
+    /// @notice Same as `reachability`, walking the stored edges instead of all n * n cells
+    function sparseReachability(
+        ebool[] memory fromIs,
+        ebool[] memory toIs,
+        uint256 n,
+        ebool[] memory frontier,
+        uint256 rounds
+    ) public returns (ebool[] memory reached) {
+        require(rounds > 0 && rounds <= n, "Invalid rounds");
+        uint256 edgeCount = n == 0 ? 0 : fromIs.length / n;
+        
+        reached = frontier;
+        for (uint r = 0; r < rounds; r++) {
+            ebool[] memory next = new ebool[](n);
+            for (uint j = 0; j < n; j++) {
+                next[j] = reached[j];
+            }
+            for (uint e = 0; e < edgeCount; e++) {
+                // Whether this edge starts at an already reached node
+                ebool source = FHE.and(reached[0], fromIs[e * n]);
+                for (uint i = 1; i < n; i++) {
+                    source = FHE.or(source, FHE.and(reached[i], fromIs[e * n + i]));
+                }
+                for (uint j = 0; j < n; j++) {
+                    next[j] = FHE.or(next[j], FHE.and(source, toIs[e * n + j]));
+                }
+            }
+            reached = next;
+        }
+    }
+    
+    /// @notice Fold sparse incidence flags into dense edge flags
+    function sparseToDense(
+        ebool[] memory fromIs,
+        ebool[] memory toIs,
+        uint256 n
+    ) public returns (ebool[] memory edges) {
+        uint256 edgeCount = n == 0 ? 0 : fromIs.length / n;
+        
+        edges = new ebool[](n * n);
+        for (uint k = 0; k < edges.length; k++) {
+            edges[k] = FHE.asEbool(false);
+        }
+        for (uint e = 0; e < edgeCount; e++) {
+            for (uint i = 0; i < n; i++) {
+                for (uint j = 0; j < n; j++) {
+                    edges[i * n + j] = FHE.or(edges[i * n + j], FHE.and(fromIs[e * n + i], toIs[e * n + j]));
+                }
+            }
+        }
+    }
+    
+    /// @notice Count directed 2-cycles (i <-> j) and 3-cycles (i -> j -> k -> i), each cycle once,
+    /// crediting every node on it. Self-loops are ignored.
+    function countShortCycles(
+        ebool[] memory edges,
+        uint256 n
+    ) public returns (euint32[] memory participation, euint32 total) {
+        participation = new euint32[](n);
+        for (uint i = 0; i < n; i++) {
+            participation[i] = FHE.asEuint32(0);
+        }
+        total = FHE.asEuint32(0);
+        
+        for (uint i = 0; i < n; i++) {
+            for (uint j = i + 1; j < n; j++) {
+                euint32 reciprocal = FHE.asEuint32(FHE.and(edges[i * n + j], edges[j * n + i]));
+                participation[i] = FHE.add(participation[i], reciprocal);
+                participation[j] = FHE.add(participation[j], reciprocal);
+                total = FHE.add(total, reciprocal);
+            }
+        }
+        
+        // The smallest node starts the cycle, so each orientation of a triangle is counted once
+        for (uint i = 0; i < n; i++) {
+            for (uint j = i + 1; j < n; j++) {
+                for (uint k = i + 1; k < n; k++) {
+                    if (k == j) continue;
+                    euint32 triangle = FHE.asEuint32(
+                        FHE.and(FHE.and(edges[i * n + j], edges[j * n + k]), edges[k * n + i])
+                    );
+                    participation[i] = FHE.add(participation[i], triangle);
+                    participation[j] = FHE.add(participation[j], triangle);
+                    participation[k] = FHE.add(participation[k], triangle);
+                    total = FHE.add(total, triangle);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Data-oblivious trade pattern checks over encrypted transactions
+/// @dev Linked into InsiderRingAnalysis and executed through DELEGATECALL, like EncryptedGraph.
+/// Every check evaluates all of its comparisons, so the result is the only thing that depends
+/// on the encrypted inputs.
+library EncryptedPatterns {
+    /// @notice Encrypted fields of a stored transaction that the pattern checks look at
+    struct Trade {
+        euint32 trader;
+        euint32 counterparty;
+        euint32 security;
+        euint64 timestamp;
+    }
+
+    /// @notice Encrypted fields of a large client order reported by a broker
+    struct Order {
+        euint32 client;
+        euint32 security;
+        euint64 timestamp;
+        euint8 side;
+    }
+
+    /// @notice Whether a trade was executed against its own trader (self-dealing)
+    function isSelfTrade(Trade memory trade) public returns (ebool) {
+        return FHE.eq(trade.trader, trade.counterparty);
+    }
+
+    /// @notice Whether two trades form a wash trade: the same two parties with roles swapped,
+    /// on the same security, executed at most `window` seconds apart
+    function isWashPair(Trade memory a, Trade memory b, euint32 window) public returns (ebool) {
+        ebool swapped = FHE.and(FHE.eq(a.trader, b.counterparty), FHE.eq(a.counterparty, b.trader));
+        ebool sameSecurity = FHE.eq(a.security, b.security);
+        euint64 gap = FHE.select(
+            FHE.ge(a.timestamp, b.timestamp),
+            FHE.sub(a.timestamp, b.timestamp),
+            FHE.sub(b.timestamp, a.timestamp)
+        );
+        return FHE.and(FHE.and(swapped, sameSecurity), FHE.le(gap, window));
+    }
+
+    /// @notice Whether a trade in `security` was executed in the time window [start, end)
+    function isInWindow(Trade memory trade, uint32 security, uint64 start, uint64 end) public returns (ebool) {
+        ebool inRange = FHE.and(FHE.ge(trade.timestamp, start), FHE.lt(trade.timestamp, end));
+        return FHE.and(FHE.eq(trade.security, security), inRange);
+    }
+
+    /// @notice Whether a trade is in one of `securities` or has one of `traders` on either side
+    function touchesWatchList(
+        Trade memory trade,
+        euint32[] memory securities,
+        euint32[] memory traders
+    ) public returns (ebool hit) {
+        hit = FHE.asEbool(false);
+        for (uint256 i = 0; i < securities.length; i++) {
+            hit = FHE.or(hit, FHE.eq(trade.security, securities[i]));
+        }
+        for (uint256 i = 0; i < traders.length; i++) {
+            hit = FHE.or(hit, FHE.or(FHE.eq(trade.trader, traders[i]), FHE.eq(trade.counterparty, traders[i])));
+        }
+    }
+
+    /// @notice Whether a trade on side `side` front-runs a large order: same security and side,
+    /// by a trader other than the order's client, executed before the order and at most
+    /// `window` seconds ahead of it
+    function frontRuns(Trade memory trade, euint8 side, Order memory order, uint64 window) public returns (ebool) {
+        ebool matching = FHE.and(FHE.eq(trade.security, order.security), FHE.eq(side, order.side));
+        ebool other = FHE.ne(trade.trader, order.client);
+        ebool ahead = FHE.and(
+            FHE.lt(trade.timestamp, order.timestamp),
+            FHE.le(FHE.sub(order.timestamp, trade.timestamp), window)
+        );
+        return FHE.and(FHE.and(matching, other), ahead);
+    }
+}
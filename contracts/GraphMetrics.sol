@@ -0,0 +1,886 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { IAnalysisModule, InsiderRingStorage } from "./InsiderRingStorage.sol";
+
+/// @notice Network metrics of InsiderRingAnalysis computed over the encrypted graph: degree and
+/// volume centrality, triangle counts, the clustering coefficient, connected components, PageRank,
+/// hop distances and co-trading similarity
+/// @dev Registered with InsiderRingAnalysis at deployment; its functions are called on the
+/// InsiderRingAnalysis address and run against that contract's storage. The metrics read n x n
+/// weighted cells: the adjacency matrix in dense mode, the analysis's graph snapshot in sparse mode.
+contract GraphMetrics is InsiderRingStorage, IAnalysisModule {
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](29);
+        selectors[0] = this.startCentrality.selector;
+        selectors[1] = this.continueCentrality.selector;
+        selectors[2] = this.getCentralityRun.selector;
+        selectors[3] = this.getNodeMetrics.selector;
+        selectors[4] = this.grantNodeMetrics.selector;
+        selectors[5] = this.startTriangleCount.selector;
+        selectors[6] = this.continueTriangleCount.selector;
+        selectors[7] = this.getTriangleScan.selector;
+        selectors[8] = this.getTriangleCounts.selector;
+        selectors[9] = this.startComponentLabelling.selector;
+        selectors[10] = this.continueComponentLabelling.selector;
+        selectors[11] = this.getComponentRun.selector;
+        selectors[12] = this.getComponents.selector;
+        selectors[13] = this.startPageRank.selector;
+        selectors[14] = this.continuePageRank.selector;
+        selectors[15] = this.getPageRankRun.selector;
+        selectors[16] = this.getPageRankScores.selector;
+        selectors[17] = this.startHopDistance.selector;
+        selectors[18] = this.continueHopDistance.selector;
+        selectors[19] = this.getHopDistanceRun.selector;
+        selectors[20] = this.getHopDistance.selector;
+        selectors[21] = this.grantHopDistance.selector;
+        selectors[22] = this.startSimilarityScan.selector;
+        selectors[23] = this.continueSimilarityScan.selector;
+        selectors[24] = this.getSimilarityScan.selector;
+        selectors[25] = this.getSimilarityMatrix.selector;
+        selectors[26] = this.startGraphSnapshot.selector;
+        selectors[27] = this.continueGraphSnapshot.selector;
+        selectors[28] = this.getGraphSnapshot.selector;
+    }
+    
+    /// @notice Start folding the sparse edges of a running analysis into n x n cells, which the
+    /// network metrics read in sparse mode
+    /// @dev A session's graph cannot change, so it is snapshotted once; an interrupted snapshot is
+    /// resumed with `continueGraphSnapshot`
+    function startGraphSnapshot(uint256 analysisId) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(graphMode == GraphMode.Sparse, "Sparse graph mode required");
+        _requireCurrentMatrix(analysisId);
+        require(graphSnapshots[analysisId].nodeCount == 0, "Graph snapshot already started");
+        
+        uint256 n = _nodeCount();
+        graphSnapshots[analysisId] = GraphSnapshot({
+            nodeCount: n,
+            edgeCount: sparseEdgeCount,
+            nextEdge: 0,
+            nextCell: 0,
+            active: true
+        });
+        euint64 zero = FHE.allowThis(FHE.asEuint64(0));
+        for (uint256 k = 0; k < n * n; k++) {
+            snapshotCells[analysisId].push(zero);
+        }
+        emit GraphSnapshotStarted(analysisId, n, sparseEdgeCount);
+    }
+    
+    /// @notice Fold up to `maxCells` more cells of the sparse edges into an analysis's snapshot
+    /// @dev Folds like a dense matrix build: every edge touches every cell, and cell (i, j) gains
+    /// the edge weight only when the encrypted endpoints equal nodes i and j. The snapshot keeps
+    /// its place by edge and cell, so the cost of a chunk is bounded by `maxCells`.
+    function continueGraphSnapshot(uint256 analysisId, uint256 maxCells) public onlyRegulator returns (bool done) {
+        GraphSnapshot storage snapshot = graphSnapshots[analysisId];
+        require(snapshot.active, "No graph snapshot in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        require(maxCells > 0, "Invalid chunk size");
+        
+        uint256 n = snapshot.nodeCount;
+        uint256 e = snapshot.nextEdge;
+        uint256 cell = snapshot.nextCell;
+        uint256 budget = maxCells;
+        while (budget > 0 && e < snapshot.edgeCount) {
+            uint256 end = cell + budget;
+            if (end > n * n) end = n * n;
+            _foldEdgeCells(snapshotCells[analysisId], sparseEdges[e], cell, end, n);
+            budget -= end - cell;
+            cell = end;
+            if (cell == n * n) {
+                e++;
+                cell = 0;
+            }
+        }
+        
+        snapshot.nextEdge = e;
+        snapshot.nextCell = cell;
+        emit GraphSnapshotProgress(analysisId, e, cell);
+        
+        done = e == snapshot.edgeCount;
+        if (done) {
+            snapshot.active = false;
+            emit GraphSnapshotTaken(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's graph snapshot
+    function getGraphSnapshot(uint256 analysisId) public view returns (GraphSnapshot memory) {
+        return graphSnapshots[analysisId];
+    }
+    
+    /// @notice Start computing degree and volume centrality of every node for a running analysis
+    /// @dev Restarts the computation if the analysis already has metrics
+    function startCentrality(uint256 analysisId) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        uint256 n = _requireGraph(analysisId);
+        
+        centralityRuns[analysisId] = CentralityRun({ nextNode: 0, nodeCount: n, active: true });
+        emit CentralityStarted(analysisId, n);
+    }
+    
+    /// @notice Compute the metrics of up to `maxNodes` more nodes
+    /// @dev Each node reads its adjacency row and column once, 2 * (n - 1) cells; self-loops are
+    /// left out of every metric. Metrics stay private to this contract until granted.
+    function continueCentrality(uint256 analysisId, uint256 maxNodes) public onlyRegulator returns (bool done) {
+        CentralityRun storage run = centralityRuns[analysisId];
+        require(run.active, "No centrality computation in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        require(maxNodes > 0, "Invalid chunk size");
+        
+        euint64[] storage cells = _graphCells(analysisId);
+        uint256 end = run.nextNode + maxNodes;
+        if (end > run.nodeCount) end = run.nodeCount;
+        for (uint256 i = run.nextNode; i < end; i++) {
+            nodeMetrics[analysisId][i] = _nodeMetrics(cells, i, run.nodeCount);
+        }
+        
+        run.nextNode = end;
+        emit CentralityProgress(analysisId, end, run.nodeCount);
+        
+        done = end == run.nodeCount;
+        if (done) {
+            run.active = false;
+            emit CentralityComputed(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's centrality computation
+    function getCentralityRun(uint256 analysisId) public view returns (CentralityRun memory) {
+        return centralityRuns[analysisId];
+    }
+    
+    /// @notice Get the encrypted metrics of a node (index into the node table)
+    function getNodeMetrics(uint256 analysisId, uint256 node) public view returns (NodeMetrics memory) {
+        require(node < centralityRuns[analysisId].nextNode, "Metrics not computed");
+        return nodeMetrics[analysisId][node];
+    }
+    
+    /// @notice Let an analyst user-decrypt the metrics of one node
+    function grantNodeMetrics(uint256 analysisId, uint256 node, address analyst) public onlyRegulator {
+        require(node < centralityRuns[analysisId].nextNode, "Metrics not computed");
+        require(analyst != address(0), "Invalid analyst");
+        
+        NodeMetrics storage metrics = nodeMetrics[analysisId][node];
+        FHE.allow(metrics.inDegree, analyst);
+        FHE.allow(metrics.outDegree, analyst);
+        FHE.allow(metrics.inVolume, analyst);
+        FHE.allow(metrics.outVolume, analyst);
+        FHE.allow(metrics.reciprocity, analyst);
+        emit NodeMetricsGranted(analysisId, node, analyst);
+    }
+    
+    /// @notice Start counting triangles per node and the clustering coefficient for a running analysis
+    /// @dev Works on the undirected graph: nodes are linked when an edge runs either way between
+    /// them, self-loops are ignored. Restarts the count if the analysis was already scanned.
+    function startTriangleCount(uint256 analysisId) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        uint256 n = _requireGraph(analysisId);
+        require(n > 2, "Matrix too small");
+        
+        (uint256 i, uint256 j, uint256 k) = _nextTriple(0, 0, 1, n);
+        triangleScans[analysisId] = TriangleScan({ nodeCount: n, nextI: i, nextJ: j, nextK: k, active: true });
+        
+        euint32 zero = FHE.allowThis(FHE.asEuint32(0));
+        delete nodeTriangles[analysisId];
+        for (uint256 node = 0; node < n; node++) {
+            nodeTriangles[analysisId].push(zero);
+        }
+        clusteringCounts[analysisId] = ClusteringCounts({ closedTriplets: zero, connectedTriplets: zero });
+        emit TriangleScanStarted(analysisId, n);
+    }
+    
+    /// @notice Check up to `maxPairs` more neighbour pairs of a triangle count
+    /// @dev Every node i is paired with every pair j < k of other nodes: the pair is a connected
+    /// triplet when i links to both, and closes a triangle on i when j and k link too. The
+    /// finished counts are granted to the regulator completing the scan.
+    function continueTriangleCount(uint256 analysisId, uint256 maxPairs) public onlyRegulator returns (bool done) {
+        TriangleScan storage scan = triangleScans[analysisId];
+        require(scan.active, "No triangle count in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        require(maxPairs > 0, "Invalid chunk size");
+        
+        euint64[] storage cells = _graphCells(analysisId);
+        uint256 n = scan.nodeCount;
+        uint256 i = scan.nextI;
+        uint256 j = scan.nextJ;
+        uint256 k = scan.nextK;
+        euint32[] storage triangles = nodeTriangles[analysisId];
+        ClusteringCounts storage counts = clusteringCounts[analysisId];
+        euint32 closed = counts.closedTriplets;
+        euint32 connected = counts.connectedTriplets;
+        
+        for (uint256 step = 0; step < maxPairs && i < n; step++) {
+            ebool triplet = FHE.and(_linked(cells, i, j, n), _linked(cells, i, k, n));
+            euint32 triangle = FHE.asEuint32(FHE.and(triplet, _linked(cells, j, k, n)));
+            triangles[i] = FHE.allowThis(FHE.add(triangles[i], triangle));
+            closed = FHE.add(closed, triangle);
+            connected = FHE.add(connected, FHE.asEuint32(triplet));
+            (i, j, k) = _nextTriple(i, j, k + 1, n);
+        }
+        
+        counts.closedTriplets = FHE.allowThis(closed);
+        counts.connectedTriplets = FHE.allowThis(connected);
+        scan.nextI = i;
+        scan.nextJ = j;
+        scan.nextK = k;
+        emit TriangleScanProgress(analysisId, i, j, k);
+        
+        done = i == n;
+        if (done) {
+            scan.active = false;
+            for (uint256 node = 0; node < n; node++) {
+                FHE.allow(triangles[node], msg.sender);
+            }
+            FHE.allow(closed, msg.sender);
+            FHE.allow(connected, msg.sender);
+            emit TrianglesCounted(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's triangle count
+    function getTriangleScan(uint256 analysisId) public view returns (TriangleScan memory) {
+        return triangleScans[analysisId];
+    }
+    
+    /// @notice Get the encrypted triangles per node and the clustering coefficient terms of an
+    /// analysis; the coefficient is closedTriplets / connectedTriplets
+    function getTriangleCounts(uint256 analysisId) public view returns (
+        euint32[] memory triangles,
+        euint32 closedTriplets,
+        euint32 connectedTriplets
+    ) {
+        ClusteringCounts storage counts = clusteringCounts[analysisId];
+        return (nodeTriangles[analysisId], counts.closedTriplets, counts.connectedTriplets);
+    }
+    
+    /// @notice Start labelling the connected components of a running analysis's graph
+    /// @param minSharedCells When non-zero, nodes that co-traded in at least this many cells of the
+    /// analysis's finished similarity scan are linked as well as nodes joined by an edge
+    /// @dev Needs the analysis's detected cycles: the component picked as the ring must contain a
+    /// node on a cycle. Restarts the labelling if the analysis was already labelled.
+    function startComponentLabelling(
+        uint256 analysisId,
+        uint256 rounds,
+        uint32 minSharedCells
+    ) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        uint256 n = _requireGraph(analysisId);
+        require(cycleParticipation[analysisId].length == n, "Cycles not detected");
+        require(rounds > 0 && rounds < n, "Invalid rounds");
+        if (minSharedCells > 0) {
+            SimilarityScan storage scan = similarityScans[analysisId];
+            require(scan.nodeCount == n && scan.nextCell > 0 && !scan.active, "Similarity not computed");
+        }
+        
+        componentRuns[analysisId] = ComponentRun({
+            nodeCount: n,
+            rounds: rounds,
+            round: 0,
+            next: 0,
+            minSharedCells: minSharedCells,
+            active: true
+        });
+        delete componentLabels[analysisId];
+        delete componentRings[analysisId];
+        for (uint256 i = 0; i < n; i++) {
+            componentLabels[analysisId].push(FHE.allowThis(FHE.asEuint32(uint32(i + 1))));
+        }
+        euint32 zero = FHE.allowThis(FHE.asEuint32(0));
+        largestComponents[analysisId] = LargestComponent({ label: zero, size: zero });
+        emit ComponentLabellingStarted(analysisId, n, rounds);
+    }
+    
+    /// @notice Run up to `maxSteps` more steps of a component labelling
+    /// @dev Every node starts with label i + 1. A propagation step lowers one node's label to the
+    /// smallest label among its neighbours in the undirected graph, which also joins co-trading
+    /// nodes when the run was started with `minSharedCells`; labels are updated in place,
+    /// in node order, so after enough rounds each component carries the label of its first node.
+    /// Once the rounds are done, a step sizes the component of one candidate label, keeping the
+    /// largest that has a node on a cycle (the smallest label among equals). The last step writes
+    /// that component out as the analysis's ring and grants it, with the labels, to the
+    /// regulator completing the run.
+    function continueComponentLabelling(
+        uint256 analysisId,
+        uint256 maxSteps
+    ) public onlyRegulator returns (bool done) {
+        ComponentRun storage run = componentRuns[analysisId];
+        require(run.active, "No component labelling in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        require(maxSteps > 0, "Invalid chunk size");
+        
+        uint256 n = run.nodeCount;
+        euint64[] storage cells = _graphCells(analysisId);
+        euint32[] storage labels = componentLabels[analysisId];
+        for (uint256 step = 0; step < maxSteps && run.round <= run.rounds; step++) {
+            if (run.round < run.rounds) {
+                _propagateLabel(analysisId, cells, labels, run.next, run.minSharedCells);
+            } else {
+                _sizeComponent(analysisId, labels, run.next, n);
+            }
+            if (++run.next == n) {
+                run.next = 0;
+                run.round++;
+            }
+        }
+        emit ComponentLabellingProgress(analysisId, run.round, run.next);
+        
+        done = run.round > run.rounds;
+        if (done) {
+            run.active = false;
+            euint32 best = largestComponents[analysisId].label;
+            euint32[] storage ring = componentRings[analysisId];
+            for (uint256 i = 0; i < n; i++) {
+                ebool member = FHE.eq(labels[i], best);
+                ring.push(FHE.allowThis(FHE.select(member, FHE.asEuint32(uint32(i + 1)), FHE.asEuint32(0))));
+                FHE.allow(labels[i], msg.sender);
+                FHE.allow(ring[i], msg.sender);
+            }
+            emit ComponentsLabelled(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's component labelling
+    function getComponentRun(uint256 analysisId) public view returns (ComponentRun memory) {
+        return componentRuns[analysisId];
+    }
+    
+    /// @notice Get the encrypted component label of every node and the ring derived from them,
+    /// in the ring member format of `getEncryptedAnalysisResult`; the ring is empty until labelling finishes
+    function getComponents(uint256 analysisId) public view returns (euint32[] memory labels, euint32[] memory ring) {
+        return (componentLabels[analysisId], componentRings[analysisId]);
+    }
+    
+    /// @notice Start a fixed-point PageRank of a running analysis's graph
+    /// @dev Needs the analysis's centrality: out-degrees come from its node metrics. Every node
+    /// starts at PAGERANK_SCALE / n. Restarts the computation if the analysis was already ranked.
+    function startPageRank(uint256 analysisId, uint256 iterations, uint256 dampingBps) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        uint256 n = _requireGraph(analysisId);
+        CentralityRun storage centrality = centralityRuns[analysisId];
+        require(!centrality.active && centrality.nextNode == n, "Centrality not computed");
+        require(iterations > 0 && iterations <= MAX_PAGERANK_ITERATIONS, "Invalid iterations");
+        require(dampingBps < 10_000, "Invalid damping");
+        
+        pageRankRuns[analysisId] = PageRankRun({
+            nodeCount: n,
+            iterations: iterations,
+            dampingBps: dampingBps,
+            iteration: 0,
+            next: 0,
+            active: true
+        });
+        delete pageRankScores[analysisId];
+        delete pageRankShares[analysisId];
+        euint64 initial = FHE.allowThis(FHE.asEuint64(uint64(PAGERANK_SCALE / n)));
+        euint64 zero = FHE.allowThis(FHE.asEuint64(0));
+        for (uint256 i = 0; i < n; i++) {
+            pageRankScores[analysisId].push(initial);
+            pageRankShares[analysisId].push(zero);
+        }
+        emit PageRankStarted(analysisId, n, iterations, dampingBps);
+    }
+    
+    /// @notice Run up to `maxSteps` more steps of a PageRank computation
+    /// @dev An iteration takes 2n steps. First every node i computes the share it passes along each
+    /// outgoing edge, (score_i * factor) >> 32 with factor = dampingBps * 2^32 / (10000 * outDegree_i)
+    /// rounded down (0 without outgoing edges). Then every node j collects
+    /// (PAGERANK_SCALE * (10000 - dampingBps)) / (10000 * n) plus the shares of the nodes with an
+    /// edge into it. Self-loops are ignored and the score of nodes without outgoing edges is not
+    /// passed on, so scores add up to at most PAGERANK_SCALE. The finished scores are granted to
+    /// the regulator completing the run.
+    function continuePageRank(uint256 analysisId, uint256 maxSteps) public onlyRegulator returns (bool done) {
+        PageRankRun storage run = pageRankRuns[analysisId];
+        require(run.active, "No PageRank computation in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        require(maxSteps > 0, "Invalid chunk size");
+        
+        uint256 n = run.nodeCount;
+        euint64[] storage cells = _graphCells(analysisId);
+        euint64[] storage scores = pageRankScores[analysisId];
+        euint64[] storage shares = pageRankShares[analysisId];
+        for (uint256 step = 0; step < maxSteps && run.iteration < run.iterations; step++) {
+            if (run.next < n) {
+                shares[run.next] = _pageRankShare(analysisId, scores[run.next], run.next, n, run.dampingBps);
+            } else {
+                scores[run.next - n] = _pageRankScore(cells, shares, run.next - n, run.dampingBps);
+            }
+            if (++run.next == 2 * n) {
+                run.next = 0;
+                run.iteration++;
+            }
+        }
+        emit PageRankProgress(analysisId, run.iteration, run.next);
+        
+        done = run.iteration == run.iterations;
+        if (done) {
+            run.active = false;
+            for (uint256 i = 0; i < n; i++) {
+                FHE.allow(scores[i], msg.sender);
+            }
+            emit PageRankComputed(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's PageRank computation
+    function getPageRankRun(uint256 analysisId) public view returns (PageRankRun memory) {
+        return pageRankRuns[analysisId];
+    }
+    
+    /// @notice Get the encrypted PageRank score of every node, in units of 1 / PAGERANK_SCALE;
+    /// final once the run is no longer active
+    function getPageRankScores(uint256 analysisId) public view returns (euint64[] memory) {
+        return pageRankScores[analysisId];
+    }
+    
+    /// @notice Start computing the encrypted number of hops on the shortest directed path between
+    /// two encrypted nodes (indexes into the node table) of a running analysis's graph, capped: a
+    /// distance beyond `maxHops`, no path or a node index outside the table all come out as
+    /// maxHops + 1
+    /// @dev Walks `maxHops` rounds of encrypted reachability from `fromNode` over every cell, so
+    /// neither the nodes nor the path leak through the access pattern. The distance starts at
+    /// maxHops + 1 and drops by one at the start and after every hop that finds `toNode` among
+    /// the reached nodes.
+    function startHopDistance(
+        uint256 analysisId,
+        externalEuint32 fromNode,
+        externalEuint32 toNode,
+        bytes calldata inputProof,
+        uint256 maxHops
+    ) public onlyRegulator returns (uint256 resultId) {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        uint256 n = _requireGraph(analysisId);
+        require(maxHops > 0 && maxHops <= n, "Invalid hops");
+        euint32 from = FHE.fromExternal(fromNode, inputProof);
+        
+        resultId = ++hopDistanceCount;
+        hopDistanceRuns[resultId] = HopDistanceRun({
+            analysisId: analysisId,
+            nodeCount: n,
+            maxHops: maxHops,
+            hops: 0,
+            next: 0,
+            active: true
+        });
+        for (uint256 i = 0; i < n; i++) {
+            ebool start = FHE.allowThis(FHE.eq(from, uint32(i)));
+            hopReached[resultId].push(start);
+            hopFrontier[resultId].push(start);
+        }
+        hopTargets[resultId] = FHE.allowThis(FHE.fromExternal(toNode, inputProof));
+        hopDistances[resultId] = FHE.asEuint32(uint32(maxHops + 1));
+        _checkHopTarget(resultId, n);
+        emit HopDistanceStarted(resultId, analysisId, maxHops);
+    }
+    
+    /// @notice Run up to `maxSteps` more steps of a hop distance computation
+    /// @dev A hop takes n + 1 steps: one per node j, which is reached after the hop when it was
+    /// reached before or an edge runs into it from a reached node, then one that moves on to the
+    /// new frontier and checks it for the target. The finished distance is granted to the
+    /// regulator completing the run.
+    function continueHopDistance(uint256 resultId, uint256 maxSteps) public onlyRegulator returns (bool done) {
+        HopDistanceRun storage run = hopDistanceRuns[resultId];
+        require(run.active, "No hop distance computation in progress");
+        require(analysisSessions[run.analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(run.analysisId);
+        require(maxSteps > 0, "Invalid chunk size");
+        
+        uint256 n = run.nodeCount;
+        euint64[] storage cells = _graphCells(run.analysisId);
+        ebool[] storage reached = hopReached[resultId];
+        ebool[] storage frontier = hopFrontier[resultId];
+        for (uint256 step = 0; step < maxSteps && run.hops < run.maxHops; step++) {
+            if (run.next < n) {
+                frontier[run.next] = _collectHop(cells, reached, run.next);
+            } else {
+                for (uint256 i = 0; i < n; i++) {
+                    reached[i] = frontier[i];
+                }
+                _checkHopTarget(resultId, n);
+            }
+            if (++run.next == n + 1) {
+                run.next = 0;
+                run.hops++;
+            }
+        }
+        emit HopDistanceProgress(resultId, run.hops, run.next);
+        
+        done = run.hops == run.maxHops;
+        if (done) {
+            run.active = false;
+            FHE.allow(hopDistances[resultId], msg.sender);
+            emit HopDistanceComputed(resultId, run.maxHops);
+        }
+    }
+    
+    /// @notice Get the progress of a hop distance computation
+    function getHopDistanceRun(uint256 resultId) public view returns (HopDistanceRun memory) {
+        return hopDistanceRuns[resultId];
+    }
+    
+    /// @notice Get an encrypted hop distance
+    function getHopDistance(uint256 resultId) public view returns (euint32) {
+        _requireHopDistance(resultId);
+        return hopDistances[resultId];
+    }
+    
+    /// @notice Let an analyst user-decrypt a hop distance
+    function grantHopDistance(uint256 resultId, address analyst) public onlyRegulator {
+        _requireHopDistance(resultId);
+        require(analyst != address(0), "Invalid analyst");
+        FHE.allow(hopDistances[resultId], analyst);
+        emit HopDistanceGranted(resultId, analyst);
+    }
+    
+    function _requireHopDistance(uint256 resultId) private view {
+        require(resultId > 0 && resultId <= hopDistanceCount, "Invalid result");
+        require(!hopDistanceRuns[resultId].active, "Hop distance not computed");
+    }
+    
+    /// @dev Whether node j is reached one hop after `reached`
+    function _collectHop(euint64[] storage cells, ebool[] storage reached, uint256 j) private returns (ebool) {
+        uint256 n = reached.length;
+        ebool collected = reached[j];
+        for (uint256 i = 0; i < n; i++) {
+            if (i == j) continue;
+            ebool edge = FHE.ne(cells[i * n + j], uint64(0));
+            collected = FHE.or(collected, FHE.and(reached[i], edge));
+        }
+        return FHE.allowThis(collected);
+    }
+    
+    /// @dev Count one more round for the distance when the target is among the reached nodes
+    function _checkHopTarget(uint256 resultId, uint256 n) private {
+        ebool[] storage reached = hopReached[resultId];
+        euint32 target = hopTargets[resultId];
+        ebool found = FHE.and(reached[0], FHE.eq(target, uint32(0)));
+        for (uint256 i = 1; i < n; i++) {
+            found = FHE.or(found, FHE.and(reached[i], FHE.eq(target, uint32(i))));
+        }
+        hopDistances[resultId] = FHE.allowThis(FHE.sub(hopDistances[resultId], FHE.asEuint32(found)));
+    }
+    
+    /// @notice Start counting, for every pair of nodes, the security/time bucket cells in which
+    /// both traded, over a range of transactions, for a running analysis
+    /// @dev Bucket `b` covers [startTime + b * bucketSeconds, startTime + (b + 1) * bucketSeconds).
+    /// Nodes are matched on the trader of a transaction, not its counterparty, so two traders
+    /// score even if they never traded with each other. Restarts the scan if the analysis was
+    /// already scanned.
+    function startSimilarityScan(
+        uint256 analysisId,
+        uint32[] calldata securities,
+        uint64 startTime,
+        uint32 bucketSeconds,
+        uint32 bucketCount,
+        uint256 firstId,
+        uint256 lastId
+    ) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        uint256 n = nodeTraderIds.length;
+        require(n > 1 && n == _nodeCount(), "Node index table not set");
+        require(securities.length > 0 && bucketSeconds > 0 && bucketCount > 0, "Invalid bucket layout");
+        require(securities.length * bucketCount <= MAX_SIMILARITY_CELLS, "Too many similarity buckets");
+        require(uint256(startTime) + uint256(bucketSeconds) * bucketCount <= type(uint64).max, "Invalid bucket layout");
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        
+        similarityScans[analysisId] = SimilarityScan({
+            startTime: startTime,
+            bucketSeconds: bucketSeconds,
+            bucketCount: bucketCount,
+            nodeCount: n,
+            firstId: firstId,
+            lastId: lastId,
+            nextCell: 0,
+            nextStep: 0,
+            active: true
+        });
+        similaritySecurities[analysisId] = securities;
+        
+        ebool idle = FHE.allowThis(FHE.asEbool(false));
+        euint32 zero = FHE.allowThis(FHE.asEuint32(0));
+        delete cellActivity[analysisId];
+        delete similarityMatrices[analysisId];
+        for (uint256 i = 0; i < n; i++) {
+            cellActivity[analysisId].push(idle);
+        }
+        for (uint256 cell = 0; cell < n * n; cell++) {
+            similarityMatrices[analysisId].push(zero);
+        }
+        emit SimilarityScanStarted(analysisId, n, securities.length * bucketCount, firstId, lastId);
+    }
+    
+    /// @notice Take up to `maxSteps` more steps of a similarity scan
+    /// @dev Cells are scanned one at a time: one step per transaction marks the nodes whose
+    /// pseudonym is its trader as active when the transaction falls in the cell, then one step per
+    /// node pair i < j adds 1 to both (i, j) and (j, i) when both were active. The finished matrix
+    /// is granted to the regulator completing the scan.
+    function continueSimilarityScan(uint256 analysisId, uint256 maxSteps) public onlyRegulator returns (bool done) {
+        SimilarityScan storage scan = similarityScans[analysisId];
+        require(scan.active, "No similarity scan in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(maxSteps > 0, "Invalid chunk size");
+        
+        uint256 n = scan.nodeCount;
+        uint256 cells = similaritySecurities[analysisId].length * scan.bucketCount;
+        uint256 trades = scan.lastId - scan.firstId + 1;
+        uint256 cell = scan.nextCell;
+        uint256 step = scan.nextStep;
+        ebool[] storage active = cellActivity[analysisId];
+        euint32[] storage similarity = similarityMatrices[analysisId];
+        
+        for (uint256 k = 0; k < maxSteps && cell < cells; k++) {
+            if (step < trades) {
+                _markCellActivity(analysisId, scan, cell, scan.firstId + step);
+            } else {
+                (uint256 i, uint256 j) = _pairAt(step - trades, n);
+                euint32 shared = FHE.allowThis(
+                    FHE.add(similarity[i * n + j], FHE.asEuint32(FHE.and(active[i], active[j])))
+                );
+                similarity[i * n + j] = shared;
+                similarity[j * n + i] = shared;
+            }
+            
+            if (++step == trades + (n * (n - 1)) / 2) {
+                ebool idle = FHE.allowThis(FHE.asEbool(false));
+                for (uint256 i = 0; i < n; i++) {
+                    active[i] = idle;
+                }
+                cell++;
+                step = 0;
+            }
+        }
+        
+        scan.nextCell = cell;
+        scan.nextStep = step;
+        emit SimilarityScanProgress(analysisId, cell, step);
+        
+        done = cell == cells;
+        if (done) {
+            scan.active = false;
+            for (uint256 i = 0; i < similarity.length; i++) {
+                FHE.allow(similarity[i], msg.sender);
+            }
+            emit SimilarityComputed(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's similarity scan
+    function getSimilarityScan(uint256 analysisId) public view returns (SimilarityScan memory) {
+        return similarityScans[analysisId];
+    }
+    
+    /// @notice Get the securities of an analysis's similarity scan and its encrypted similarity
+    /// matrix, row-major over the node index table like the adjacency matrix
+    function getSimilarityMatrix(
+        uint256 analysisId
+    ) public view returns (uint32[] memory securities, euint32[] memory similarity) {
+        return (similaritySecurities[analysisId], similarityMatrices[analysisId]);
+    }
+    
+    function _pageRankShare(
+        uint256 analysisId,
+        euint64 score,
+        uint256 i,
+        uint256 n,
+        uint256 dampingBps
+    ) private returns (euint64) {
+        euint32 outDegree = nodeMetrics[analysisId][i].outDegree;
+        euint64 factor = FHE.asEuint64(0);
+        for (uint256 k = 1; k < n; k++) {
+            uint64 kFactor = uint64((dampingBps << 32) / (10_000 * k));
+            factor = FHE.select(FHE.eq(outDegree, uint32(k)), FHE.asEuint64(kFactor), factor);
+        }
+        return FHE.allowThis(FHE.shr(FHE.mul(score, factor), uint8(32)));
+    }
+    
+    function _pageRankScore(
+        euint64[] storage cells,
+        euint64[] storage shares,
+        uint256 j,
+        uint256 dampingBps
+    ) private returns (euint64) {
+        uint256 n = shares.length;
+        euint64 score = FHE.asEuint64(uint64((PAGERANK_SCALE * (10_000 - dampingBps)) / (10_000 * n)));
+        for (uint256 i = 0; i < n; i++) {
+            if (i == j) continue;
+            ebool edge = FHE.ne(cells[i * n + j], uint64(0));
+            score = FHE.add(score, FHE.select(edge, shares[i], FHE.asEuint64(0)));
+        }
+        return FHE.allowThis(score);
+    }
+    
+    function _propagateLabel(
+        uint256 analysisId,
+        euint64[] storage cells,
+        euint32[] storage labels,
+        uint256 i,
+        uint32 minSharedCells
+    ) private {
+        uint256 n = labels.length;
+        euint32[] storage similarity = similarityMatrices[analysisId];
+        euint32 label = labels[i];
+        for (uint256 j = 0; j < n; j++) {
+            if (j == i) continue;
+            ebool linked = _linked(cells, i, j, n);
+            if (minSharedCells > 0) {
+                linked = FHE.or(linked, FHE.ge(similarity[i * n + j], minSharedCells));
+            }
+            label = FHE.min(label, FHE.select(linked, labels[j], label));
+        }
+        labels[i] = FHE.allowThis(label);
+    }
+    
+    /// @dev Size the component labelled `candidate + 1` and keep it if it is the largest
+    /// suspicious one so far
+    function _sizeComponent(uint256 analysisId, euint32[] storage labels, uint256 candidate, uint256 n) private {
+        euint32[] storage participation = cycleParticipation[analysisId];
+        uint32 label = uint32(candidate + 1);
+        euint32 size = FHE.asEuint32(0);
+        ebool suspicious = FHE.asEbool(false);
+        for (uint256 i = 0; i < n; i++) {
+            ebool inComponent = FHE.eq(labels[i], label);
+            size = FHE.add(size, FHE.asEuint32(inComponent));
+            suspicious = FHE.or(suspicious, FHE.and(inComponent, FHE.gt(participation[i], uint32(0))));
+        }
+        
+        LargestComponent storage largest = largestComponents[analysisId];
+        ebool larger = FHE.gt(FHE.select(suspicious, size, FHE.asEuint32(0)), largest.size);
+        largest.size = FHE.allowThis(FHE.select(larger, size, largest.size));
+        largest.label = FHE.allowThis(FHE.select(larger, FHE.asEuint32(label), largest.label));
+    }
+    
+    /// @dev Whether an edge runs either way between nodes a and b
+    function _linked(euint64[] storage cells, uint256 a, uint256 b, uint256 n) private returns (ebool) {
+        return FHE.or(FHE.ne(cells[a * n + b], uint64(0)), FHE.ne(cells[b * n + a], uint64(0)));
+    }
+    
+    /// @dev First triple at or after (i, j, k) in scan order with j < k and both distinct from i;
+    /// i == n once every triple was visited
+    function _nextTriple(
+        uint256 i,
+        uint256 j,
+        uint256 k,
+        uint256 n
+    ) private pure returns (uint256, uint256, uint256) {
+        while (i < n) {
+            if (j >= n) {
+                i++;
+                j = 0;
+                k = 1;
+            } else if (j == i) {
+                j++;
+                k = j + 1;
+            } else if (k == i) {
+                k++;
+            } else if (k >= n) {
+                j++;
+                k = j + 1;
+            } else {
+                return (i, j, k);
+            }
+        }
+        return (n, 0, 0);
+    }
+    
+    function _nodeMetrics(
+        euint64[] storage cells,
+        uint256 i,
+        uint256 n
+    ) private returns (NodeMetrics memory metrics) {
+        euint32 inDegree = FHE.asEuint32(0);
+        euint32 outDegree = FHE.asEuint32(0);
+        euint32 reciprocity = FHE.asEuint32(0);
+        euint64 inVolume = FHE.asEuint64(0);
+        euint64 outVolume = FHE.asEuint64(0);
+        
+        for (uint256 j = 0; j < n; j++) {
+            if (j == i) continue;
+            euint64 outgoing = cells[i * n + j];
+            euint64 incoming = cells[j * n + i];
+            ebool hasOut = FHE.ne(outgoing, uint64(0));
+            ebool hasIn = FHE.ne(incoming, uint64(0));
+            
+            outDegree = FHE.add(outDegree, FHE.asEuint32(hasOut));
+            inDegree = FHE.add(inDegree, FHE.asEuint32(hasIn));
+            reciprocity = FHE.add(reciprocity, FHE.asEuint32(FHE.and(hasOut, hasIn)));
+            outVolume = FHE.add(outVolume, outgoing);
+            inVolume = FHE.add(inVolume, incoming);
+        }
+        
+        metrics = NodeMetrics({
+            inDegree: FHE.allowThis(inDegree),
+            outDegree: FHE.allowThis(outDegree),
+            inVolume: FHE.allowThis(inVolume),
+            outVolume: FHE.allowThis(outVolume),
+            reciprocity: FHE.allowThis(reciprocity)
+        });
+    }
+    
+    function _markCellActivity(uint256 analysisId, SimilarityScan storage scan, uint256 cell, uint256 id) private {
+        EncryptedTransaction storage trade = encryptedTransactions[id];
+        uint64 start = scan.startTime + uint64(cell % scan.bucketCount) * scan.bucketSeconds;
+        uint64 end = start + scan.bucketSeconds;
+        uint32 security = similaritySecurities[analysisId][cell / scan.bucketCount];
+        ebool inCell = FHE.and(
+            FHE.eq(trade.encryptedSecurity, security),
+            FHE.and(FHE.ge(trade.encryptedTimestamp, start), FHE.lt(trade.encryptedTimestamp, end))
+        );
+        
+        ebool[] storage active = cellActivity[analysisId];
+        for (uint256 i = 0; i < active.length; i++) {
+            ebool own = FHE.and(inCell, FHE.eq(trade.encryptedTraderId, nodeTraderIds[i]));
+            active[i] = FHE.allowThis(FHE.or(active[i], own));
+        }
+    }
+    
+    /// @dev Node count of a running analysis's graph, once its cells can be read
+    function _requireGraph(uint256 analysisId) private view returns (uint256) {
+        _requireCurrentMatrix(analysisId);
+        if (graphMode == GraphMode.Sparse) {
+            GraphSnapshot storage snapshot = graphSnapshots[analysisId];
+            require(snapshot.nodeCount > 0 && !snapshot.active, "Graph snapshot not taken");
+        }
+        return _nodeCount();
+    }
+    
+    /// @dev Weighted cells of an analysis's graph, row-major n x n like the adjacency matrix
+    function _graphCells(uint256 analysisId) private view returns (euint64[] storage) {
+        return graphMode == GraphMode.Sparse ? snapshotCells[analysisId] : _adjacencyMatrix();
+    }
+    
+    /// @dev Add a sparse edge's weight to the cells in [first, end) of a snapshot that stand for its
+    /// endpoints. Each node is compared with the edge once per chunk.
+    function _foldEdgeCells(
+        euint64[] storage cells,
+        EncryptedEdge storage edge,
+        uint256 first,
+        uint256 end,
+        uint256 n
+    ) private {
+        ebool[] memory isTo = new ebool[](n);
+        ebool isFrom;
+        for (uint256 k = first; k < end; k++) {
+            uint256 j = k % n;
+            if (k == first || j == 0) isFrom = FHE.eq(edge.encryptedFrom, nodeTraderIds[k / n]);
+            if (!FHE.isInitialized(isTo[j])) isTo[j] = FHE.eq(edge.encryptedTo, nodeTraderIds[j]);
+            euint64 cell = cells[k];
+            cells[k] = FHE.allowThis(FHE.select(FHE.and(isFrom, isTo[j]), FHE.add(cell, edge.encryptedWeight), cell));
+        }
+    }
+    
+    /// @dev Node pair number `p` in the order (0, 1), (0, 2), ..., (1, 2), ... of pairs i < j
+    function _pairAt(uint256 p, uint256 n) private pure returns (uint256 i, uint256 j) {
+        while (p >= n - 1 - i) {
+            p -= n - 1 - i;
+            i++;
+        }
+        j = i + 1 + p;
+    }
+}
@@ -1,109 +1,606 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
-import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { FHE, euint32, euint64, externalEuint8, externalEuint32, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { EncryptedGraph } from "./EncryptedGraph.sol";
+import { IAnalysisModule, InsiderRingStorage } from "./InsiderRingStorage.sol";
 
-contract InsiderRingAnalysis is SepoliaConfig {
-    struct EncryptedTransaction {
-        uint256 id;
-        euint32 encryptedTraderId;    // Encrypted trader identifier
-        euint32 encryptedCounterparty; // Encrypted counterparty identifier
-        euint32 encryptedSecurity;    // Encrypted security identifier
-        euint32 encryptedAmount;      // Encrypted transaction amount
-        euint32 encryptedTimestamp;   // Encrypted transaction timestamp
-        uint256 submissionTime;
+contract InsiderRingAnalysis is InsiderRingStorage {
+    constructor(address[] memory modules) {
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(REGULATOR_ROLE, msg.sender);
+        _setRiskWeights(RiskWeights({
+            cycleWeight: 10,
+            volumeWeight: 1,
+            volumeDivisor: 1000,
+            timingWeight: 2,
+            timingWindow: 60,
+            frontRunWeight: 5
+        }));
+        _setRevealThreshold(50);
+        _setRevealQuorum(1, 3 days);
+        _setDecryptionTimeout(1 days);
+        for (uint m = 0; m < modules.length; m++) {
+            _registerModule(modules[m]);
+        }
     }
     
-    struct AnalysisResult {
-        euint32[] encryptedRingMembers; // Encrypted identifiers of ring members
-        euint32 encryptedRiskScore;    // Encrypted risk score
-        bool isComplete;
+    /// @notice Run module functions against this contract's storage
+    fallback() external {
+        address module = moduleForSelector[msg.sig];
+        require(module != address(0), "Unknown function");
+        
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let ok := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch ok
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
     }
     
-    struct DecryptedResult {
-        uint32[] ringMembers;
-        uint32 riskScore;
-        bool isRevealed;
+    function _registerModule(address module) private {
+        bytes4[] memory selectors = IAnalysisModule(module).moduleSelectors();
+        for (uint i = 0; i < selectors.length; i++) {
+            require(moduleForSelector[selectors[i]] == address(0), "Selector already registered");
+            moduleForSelector[selectors[i]] = module;
+        }
+        emit ModuleRegistered(module, selectors.length);
     }
     
-    // Contract state
-    uint256 public transactionCount;
-    mapping(uint256 => EncryptedTransaction) public encryptedTransactions;
-    mapping(uint256 => AnalysisResult) public analysisResults;
-    mapping(uint256 => DecryptedResult) public decryptedResults;
+    /// @notice Check whether an account holds a role
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roleMembers[role][account];
+    }
     
-    // Graph analysis state
-    euint32[] private encryptedAdjacencyMatrix;
-    uint256 public matrixSize;
+    /// @notice Grant a role to an account
+    function grantRole(bytes32 role, address account) public onlyAdmin {
+        require(account != address(0), "Invalid account");
+        _grantRole(role, account);
+    }
     
-    // Decryption requests tracking
-    mapping(uint256 => uint256) private requestToAnalysisId;
+    /// @notice Revoke a role from an account
+    function revokeRole(bytes32 role, address account) public onlyAdmin {
+        _revokeRole(role, account);
+    }
     
-    // Events
-    event TransactionSubmitted(uint256 indexed id, uint256 timestamp);
-    event AnalysisStarted(uint256 indexed analysisId);
-    event AnalysisCompleted(uint256 indexed analysisId);
-    event ResultRevealed(uint256 indexed analysisId);
+    /// @notice Give up a role held by the caller
+    function renounceRole(bytes32 role) public {
+        _revokeRole(role, msg.sender);
+    }
     
-    modifier onlyRegulator() {
-        // Access control placeholder for regulators
-        _;
+    function _grantRole(bytes32 role, address account) private {
+        require(_isKnownRole(role), "Unknown role");
+        if (roleMembers[role][account]) return;
+        
+        roleMembers[role][account] = true;
+        if (role == ADMIN_ROLE) adminCount++;
+        if (role == REGULATOR_ROLE) regulatorCount++;
+        
+        emit RoleGranted(role, account, msg.sender);
+    }
+    
+    function _revokeRole(bytes32 role, address account) private {
+        require(_isKnownRole(role), "Unknown role");
+        if (!roleMembers[role][account]) return;
+        // Keep at least one admin so roles stay manageable
+        if (role == ADMIN_ROLE) {
+            require(adminCount > 1, "Cannot remove last admin");
+            adminCount--;
+        }
+        // A quorum larger than the regulator pool could never be met
+        if (role == REGULATOR_ROLE) {
+            require(regulatorCount > revealQuorum, "Cannot drop below reveal quorum");
+            regulatorCount--;
+        }
+        
+        roleMembers[role][account] = false;
+        emit RoleRevoked(role, account, msg.sender);
+    }
+    
+    function _isKnownRole(bytes32 role) private pure returns (bool) {
+        return role == ADMIN_ROLE || role == REGULATOR_ROLE || role == BROKER_ROLE;
     }
     
     /// @notice Submit encrypted transaction data
+    /// @dev All eight fields must be encrypted together so they share a single input proof
     function submitEncryptedTransaction(
-        euint32 encryptedTraderId,
-        euint32 encryptedCounterparty,
-        euint32 encryptedSecurity,
-        euint32 encryptedAmount,
-        euint32 encryptedTimestamp
-    ) public {
+        externalEuint32 encryptedTraderId,
+        externalEuint32 encryptedCounterparty,
+        externalEuint32 encryptedSecurity,
+        externalEuint64 encryptedAmount,
+        externalEuint64 encryptedTimestamp,
+        externalEuint64 encryptedPrice,
+        externalEuint8 encryptedSide,
+        externalEuint8 encryptedInstrumentType,
+        bytes calldata inputProof
+    ) public onlyBroker {
+        uint256 newId = _storeTransaction(
+            ExternalTransaction({
+                traderId: encryptedTraderId,
+                counterparty: encryptedCounterparty,
+                security: encryptedSecurity,
+                amount: encryptedAmount,
+                timestamp: encryptedTimestamp,
+                price: encryptedPrice,
+                side: encryptedSide,
+                instrumentType: encryptedInstrumentType
+            }),
+            inputProof
+        );
+        
+        emit TransactionSubmitted(newId, block.timestamp);
+    }
+    
+    /// @notice Submit several encrypted transactions covered by a single input proof
+    function submitEncryptedTransactionBatch(
+        ExternalTransaction[] calldata trades,
+        bytes calldata inputProof
+    ) public onlyBroker {
+        require(trades.length > 0, "Empty batch");
+        
+        uint256 firstId = transactionCount + 1;
+        for (uint i = 0; i < trades.length; i++) {
+            _storeTransaction(trades[i], inputProof);
+        }
+        
+        emit TransactionBatchSubmitted(firstId, transactionCount, msg.sender);
+    }
+    
+    function _storeTransaction(ExternalTransaction memory trade, bytes calldata inputProof) private returns (uint256) {
         transactionCount++;
         uint256 newId = transactionCount;
         
         encryptedTransactions[newId] = EncryptedTransaction({
             id: newId,
-            encryptedTraderId: encryptedTraderId,
-            encryptedCounterparty: encryptedCounterparty,
-            encryptedSecurity: encryptedSecurity,
-            encryptedAmount: encryptedAmount,
-            encryptedTimestamp: encryptedTimestamp,
+            encryptedTraderId: _importCiphertext(trade.traderId, inputProof),
+            encryptedCounterparty: _importCiphertext(trade.counterparty, inputProof),
+            encryptedSecurity: _importCiphertext(trade.security, inputProof),
+            encryptedAmount: _importCiphertext(trade.amount, inputProof),
+            encryptedTimestamp: _importCiphertext(trade.timestamp, inputProof),
+            encryptedPrice: _importCiphertext(trade.price, inputProof),
+            encryptedSide: _importCiphertext(trade.side, inputProof),
+            encryptedInstrumentType: _importCiphertext(trade.instrumentType, inputProof),
             submissionTime: block.timestamp
         });
         
-        emit TransactionSubmitted(newId, block.timestamp);
+        return newId;
     }
     
-    /// @notice Initialize adjacency matrix for graph analysis
+    /// @notice Start (re)initializing the adjacency matrix to all-zero cells
+    /// @dev Cells are written by `continueMatrixInitialization`; the current matrix stays in use until then
     function initializeAdjacencyMatrix(uint256 size) public onlyRegulator {
-        matrixSize = size;
-        encryptedAdjacencyMatrix = new euint32[](size * size);
+        _startMatrixInit(size, false);
+    }
+    
+    /// @notice Start resizing the adjacency matrix, keeping the cells of nodes present in both sizes
+    function resizeAdjacencyMatrix(uint256 size) public onlyRegulator {
+        require(matrixSize > 0, "Matrix not initialized");
+        _startMatrixInit(size, true);
+    }
+    
+    /// @notice Write up to `maxCells` more cells of the pending matrix, switching to it when done
+    function continueMatrixInitialization(uint256 maxCells) public onlyRegulator returns (bool done) {
+        MatrixInit storage init = matrixInit;
+        require(init.active, "No matrix initialization in progress");
+        require(maxCells > 0, "Invalid chunk size");
+        
+        uint256 size = init.size;
+        uint256 totalCells = size * size;
+        uint256 end = init.cursor + maxCells;
+        if (end > totalCells) end = totalCells;
+        
+        euint64[] storage current = _adjacencyMatrix();
+        euint64[] storage pending = matrixGenerations[init.generation];
+        // Handles are immutable, so every fresh cell can share one encrypted zero
+        euint64 zero = FHE.allowThis(FHE.asEuint64(0));
+        
+        for (uint256 k = init.cursor; k < end; k++) {
+            uint256 i = k / size;
+            uint256 j = k % size;
+            if (init.preserve && i < matrixSize && j < matrixSize) {
+                pending.push(current[i * matrixSize + j]);
+            } else {
+                pending.push(zero);
+            }
+        }
+        
+        init.cursor = end;
+        emit MatrixInitProgress(end, totalCells);
         
-        // Initialize all to zero
-        for (uint i = 0; i < size * size; i++) {
-            encryptedAdjacencyMatrix[i] = FHE.asEuint32(0);
+        done = end == totalCells;
+        if (done) {
+            if (size != matrixSize) delete nodeTraderIds;
+            if (!init.preserve) matrixPartial = false;
+            matrixGeneration = init.generation;
+            matrixSize = size;
+            matrixVersion++;
+            init.active = false;
+            emit MatrixInitCompleted(size);
         }
     }
     
+    /// @notice Abandon a matrix initialization or resize; the current matrix stays as it was
+    function cancelMatrixInitialization() public onlyRegulator {
+        MatrixInit storage init = matrixInit;
+        require(init.active, "No matrix initialization in progress");
+        init.active = false;
+        emit MatrixInitCancelled(init.size, init.cursor);
+    }
+    
+    function _startMatrixInit(uint256 size, bool preserve) private {
+        require(size > 0, "Invalid size");
+        _requireMatrixIdle();
+        
+        uint256 generation = ++latestMatrixGeneration;
+        matrixInit = MatrixInit({ size: size, cursor: 0, generation: generation, preserve: preserve, active: true });
+        emit MatrixInitStarted(size, preserve);
+    }
+    
+    function _requireMatrixIdle() private view {
+        require(!matrixInit.active, "Matrix initialization in progress");
+        require(!matrixBuild.active, "Matrix build in progress");
+    }
+    
     /// @notice Add encrypted edge to adjacency matrix
-    function addEncryptedEdge(uint256 from, uint256 to, euint32 weight) public onlyRegulator {
+    function addEncryptedEdge(uint256 from, uint256 to, euint64 weight) public onlyRegulator {
+        require(graphMode == GraphMode.Dense, "Not in dense mode");
         require(from < matrixSize && to < matrixSize, "Invalid index");
-        encryptedAdjacencyMatrix[from * matrixSize + to] = weight;
+        _requireMatrixIdle();
+        _adjacencyMatrix()[from * matrixSize + to] = weight;
+        matrixVersion++;
+    }
+    
+    /// @notice Switch the graph representation used by the analysis routines
+    function setGraphMode(GraphMode mode) public onlyRegulator {
+        _requireMatrixIdle();
+        graphMode = mode;
+        matrixVersion++;
+        emit GraphModeChanged(mode);
+    }
+    
+    /// @notice Append an encrypted edge to the sparse graph
+    function addSparseEdge(
+        externalEuint32 encryptedFrom,
+        externalEuint32 encryptedTo,
+        externalEuint64 encryptedWeight,
+        bytes calldata inputProof
+    ) public onlyRegulator returns (uint256) {
+        require(graphMode == GraphMode.Sparse, "Not in sparse mode");
+        _requireMatrixIdle();
+        
+        uint256 slot = _pushSparseEdge(
+            _importCiphertext(encryptedFrom, inputProof),
+            _importCiphertext(encryptedTo, inputProof),
+            _importCiphertext(encryptedWeight, inputProof)
+        );
+        matrixVersion++;
+        return slot;
+    }
+    
+    /// @notice Drop all sparse edges
+    function clearSparseEdges() public onlyRegulator {
+        _requireMatrixIdle();
+        sparseEdgeCount = 0;
+        matrixPartial = false;
+        matrixVersion++;
+        emit SparseEdgesCleared();
+    }
+    
+    /// @notice Get an encrypted sparse edge
+    function getSparseEdge(uint256 slot) public view returns (euint32 from, euint32 to, euint64 weight) {
+        require(slot < sparseEdgeCount, "Invalid slot");
+        EncryptedEdge storage edge = sparseEdges[slot];
+        return (edge.encryptedFrom, edge.encryptedTo, edge.encryptedWeight);
+    }
+    
+    function _pushSparseEdge(euint32 from, euint32 to, euint64 weight) private returns (uint256 slot) {
+        slot = sparseEdgeCount++;
+        sparseEdges[slot] = EncryptedEdge({ slot: slot, encryptedFrom: from, encryptedTo: to, encryptedWeight: weight });
+        emit SparseEdgeAdded(slot);
+    }
+    
+    /// @notice Set the public table mapping matrix nodes to trader pseudonyms
+    /// @dev In dense mode the table must match the matrix size; in sparse mode it defines the nodes.
+    /// Pseudonyms must be unique, or a trade would be folded into the cells of several nodes.
+    function setNodeIndexTable(uint32[] calldata traderIds) public onlyRegulator {
+        require(
+            graphMode == GraphMode.Dense ? traderIds.length == matrixSize : traderIds.length > 0,
+            "Table size mismatch"
+        );
+        _requireMatrixIdle();
+        for (uint256 i = 1; i < traderIds.length; i++) {
+            for (uint256 j = 0; j < i; j++) {
+                require(traderIds[i] != traderIds[j], "Duplicate trader ID");
+            }
+        }
+        
+        nodeTraderIds = traderIds;
+        matrixVersion++;
+        emit NodeIndexTableSet(traderIds.length);
+    }
+    
+    /// @notice Start folding a range of submitted transactions into the adjacency matrix
+    /// @dev In sparse mode each transaction simply becomes an edge
+    function startMatrixBuild(uint256 firstId, uint256 lastId) public onlyRegulator {
+        require(
+            graphMode == GraphMode.Sparse || (nodeTraderIds.length == matrixSize && matrixSize > 0),
+            "Node index table not set"
+        );
+        _requireMatrixIdle();
+        require(!matrixPartial, "Matrix partially built");
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        
+        matrixBuild = MatrixBuild({ firstId: firstId, nextId: firstId, nextCell: 0, lastId: lastId, active: true });
+        emit MatrixBuildStarted(firstId, lastId);
+    }
+    
+    /// @notice Fold up to `maxCells` more matrix cells of the build's transactions into the matrix
+    /// @dev Every trade touches every cell: cell (i, j) gains the trade amount only when the
+    /// encrypted trader equals node i and the encrypted counterparty equals node j. The build keeps
+    /// its place by transaction and cell, so a chunk may stop inside a trade and its cost is bounded
+    /// by `maxCells` whatever the matrix size. In sparse mode every transaction counts as one cell.
+    function processMatrixBuild(uint256 maxCells) public onlyRegulator returns (bool done) {
+        MatrixBuild storage build = matrixBuild;
+        require(build.active, "No matrix build in progress");
+        require(maxCells > 0, "Invalid chunk size");
+        
+        uint256 id = build.nextId;
+        uint256 cell = build.nextCell;
+        if (graphMode == GraphMode.Sparse) {
+            for (uint256 step = 0; step < maxCells && id <= build.lastId; step++) {
+                EncryptedTransaction storage trade = encryptedTransactions[id++];
+                _pushSparseEdge(trade.encryptedTraderId, trade.encryptedCounterparty, trade.encryptedAmount);
+            }
+        } else {
+            uint256 n = matrixSize;
+            uint256 budget = maxCells;
+            while (budget > 0 && id <= build.lastId) {
+                uint256 end = cell + budget;
+                if (end > n * n) end = n * n;
+                _foldTradeCells(encryptedTransactions[id], cell, end, n);
+                budget -= end - cell;
+                cell = end;
+                if (cell == n * n) {
+                    id++;
+                    cell = 0;
+                }
+            }
+        }
+        
+        build.nextId = id;
+        build.nextCell = cell;
+        matrixVersion++;
+        emit MatrixBuildProgress(id - 1, cell, build.lastId);
+        
+        done = id > build.lastId;
+        if (done) {
+            build.active = false;
+            emit MatrixBuildCompleted(build.lastId);
+        }
+    }
+    
+    /// @dev Add a trade's amount to the cells in [first, end) of the row-major matrix that stand
+    /// for its trader and counterparty. Each node is compared with the trade once per chunk.
+    function _foldTradeCells(EncryptedTransaction storage trade, uint256 first, uint256 end, uint256 n) private {
+        ebool[] memory isTo = new ebool[](n);
+        ebool isFrom;
+        for (uint256 k = first; k < end; k++) {
+            uint256 j = k % n;
+            if (k == first || j == 0) isFrom = FHE.eq(trade.encryptedTraderId, nodeTraderIds[k / n]);
+            if (!FHE.isInitialized(isTo[j])) isTo[j] = FHE.eq(trade.encryptedCounterparty, nodeTraderIds[j]);
+            _addToCell(k, FHE.and(isFrom, isTo[j]), trade.encryptedAmount);
+        }
+    }
+    
+    function _addToCell(uint256 k, ebool matches, euint64 amount) private {
+        euint64[] storage encryptedAdjacencyMatrix = _adjacencyMatrix();
+        euint64 cell = encryptedAdjacencyMatrix[k];
+        encryptedAdjacencyMatrix[k] = FHE.allowThis(FHE.select(matches, FHE.add(cell, amount), cell));
+    }
+    
+    /// @notice Abandon a matrix build
+    /// @dev Transactions already folded in cannot be taken out again, so the graph is marked as
+    /// partial: no session or build can use it until the matrix is initialized afresh (dense
+    /// mode) or the sparse edges are cleared (sparse mode)
+    function cancelMatrixBuild() public onlyRegulator {
+        MatrixBuild storage build = matrixBuild;
+        require(build.active, "No matrix build in progress");
+        build.active = false;
+        if (build.nextId > build.firstId || build.nextCell > 0) matrixPartial = true;
+        emit MatrixBuildCancelled(build.nextId, build.lastId);
+    }
+    
+    /// @notice Create an analysis session over the current matrix and a time window
+    function createAnalysisSession(uint256 windowStart, uint256 windowEnd) public onlyRegulator returns (uint256) {
+        require(_nodeCount() > 0, "Matrix not initialized");
+        require(!matrixPartial, "Matrix partially built");
+        require(windowStart <= windowEnd, "Invalid time window");
+        
+        sessionCount++;
+        uint256 sessionId = sessionCount;
+        analysisSessions[sessionId] = AnalysisSession({
+            id: sessionId,
+            creator: msg.sender,
+            matrixSize: _nodeCount(),
+            matrixVersion: matrixVersion,
+            windowStart: windowStart,
+            windowEnd: windowEnd,
+            state: SessionState.None,
+            createdAt: block.timestamp,
+            updatedAt: block.timestamp
+        });
+        
+        emit AnalysisSessionCreated(sessionId, msg.sender, windowStart, windowEnd);
+        _transition(sessionId, SessionState.None, SessionState.Created);
+        return sessionId;
     }
     
     /// @notice Start ring detection analysis
-    function startRingDetection() public onlyRegulator {
-        uint256 analysisId = block.timestamp;
+    function startRingDetection(uint256 analysisId) public onlyRegulator {
+        _requireCurrentMatrix(analysisId);
+        _transition(analysisId, SessionState.Created, SessionState.Running);
         emit AnalysisStarted(analysisId);
     }
     
-    /// @notice Store encrypted analysis results
-    function storeAnalysisResults(
+    /// @notice Cancel a session whose ring members have not been sent for decryption
+    function cancelAnalysisSession(uint256 analysisId) public onlyRegulator {
+        SessionState state = analysisSessions[analysisId].state;
+        require(
+            state == SessionState.Created ||
+                state == SessionState.Running ||
+                state == SessionState.Completed ||
+                state == SessionState.AboveThreshold,
+            "Invalid session state"
+        );
+        _transition(analysisId, state, SessionState.Cancelled);
+    }
+    
+    /// @notice Get the current state of an analysis session
+    function getSessionState(uint256 analysisId) public view returns (SessionState) {
+        return analysisSessions[analysisId].state;
+    }
+    
+    /// @notice Detect reciprocal (2-node) and triangular (3-node) trading cycles for a running analysis
+    function detectShortCycles(uint256 analysisId) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        (euint32[] memory participation, euint32 total) = EncryptedGraph.countShortCycles(_edgeFlags(), _nodeCount());
+        
+        delete cycleParticipation[analysisId];
+        delete componentRings[analysisId];
+        euint32[] storage stored = cycleParticipation[analysisId];
+        for (uint i = 0; i < participation.length; i++) {
+            stored.push(FHE.allowThis(participation[i]));
+        }
+        cycleTotals[analysisId] = FHE.allowThis(total);
+        
+        emit CyclesDetected(analysisId);
+    }
+    
+    /// @notice Update the risk scoring weights
+    function setRiskWeights(RiskWeights calldata weights) public onlyAdmin {
+        _setRiskWeights(weights);
+    }
+    
+    /// @notice Score a running analysis from its detected cycles and the given transactions, completing it
+    /// @dev score = cycleWeight * cycles
+    ///            + volumeWeight * (volume between ring members / volumeDivisor)
+    ///            + timingWeight * (trade pairs in [firstId, lastId] executed within timingWindow)
+    ///            + frontRunWeight * (trades front-running large orders, once a front-running scan finished)
+    /// The ring volume is summed in encrypted uint64 and volume / volumeDivisor truncated to uint32;
+    /// the rest of the arithmetic is encrypted uint32. All of it wraps on overflow. Ring member i
+    /// is encrypted `i + 1` when node i is in the largest suspicious component (once components
+    /// were labelled) or otherwise sits on at least one cycle, and encrypted 0 if not.
+    /// This is the only way a session completes, so the ring sent for reveal and the score checked
+    /// against the reveal threshold always come from the governed model.
+    function computeRiskScore(uint256 analysisId, uint256 firstId, uint256 lastId) public onlyRegulator {
+        euint32[] storage participation = cycleParticipation[analysisId];
+        uint256 n = _nodeCount();
+        require(participation.length == n && n > 0, "Cycles not detected");
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        require(lastId - firstId < MAX_SCORED_TRANSACTIONS, "Too many transactions");
+        
+        RiskWeights memory w = riskWeights;
+        
+        // The ring is the largest suspicious component when components were labelled, otherwise
+        // every node on a detected cycle
+        euint32[] storage component = componentRings[analysisId];
+        bool byComponent = component.length == n;
+        ebool[] memory isMember = new ebool[](n);
+        euint32[] memory members = new euint32[](n);
+        for (uint i = 0; i < n; i++) {
+            if (byComponent) {
+                members[i] = component[i];
+                isMember[i] = FHE.ne(members[i], uint32(0));
+            } else {
+                isMember[i] = FHE.gt(participation[i], uint32(0));
+                members[i] = FHE.allowThis(FHE.select(isMember[i], FHE.asEuint32(uint32(i + 1)), FHE.asEuint32(0)));
+            }
+        }
+        euint64 ringVolume = _ringVolume(isMember);
+        
+        euint32 score = FHE.mul(cycleTotals[analysisId], w.cycleWeight);
+        score = FHE.add(score, FHE.mul(FHE.asEuint32(FHE.div(ringVolume, w.volumeDivisor)), w.volumeWeight));
+        score = FHE.add(score, FHE.mul(_countCloseTrades(firstId, lastId, w.timingWindow), w.timingWeight));
+        euint32 frontRuns = frontRunTotals[analysisId];
+        if (FHE.isInitialized(frontRuns)) {
+            score = FHE.add(score, FHE.mul(frontRuns, w.frontRunWeight));
+        }
+        
+        emit RiskScoreComputed(analysisId, firstId, lastId);
+        _storeAnalysisResults(analysisId, members, FHE.allowThis(score));
+    }
+    
+    /// @dev Total weight of edges whose both endpoints are flagged in `isMember`
+    function _ringVolume(ebool[] memory isMember) private returns (euint64 volume) {
+        uint256 n = isMember.length;
+        volume = FHE.asEuint64(0);
+        
+        if (graphMode == GraphMode.Sparse) {
+            (ebool[] memory fromIs, ebool[] memory toIs) = _sparseIncidence();
+            for (uint e = 0; e < sparseEdgeCount; e++) {
+                ebool fromMember = FHE.and(fromIs[e * n], isMember[0]);
+                ebool toMember = FHE.and(toIs[e * n], isMember[0]);
+                for (uint i = 1; i < n; i++) {
+                    fromMember = FHE.or(fromMember, FHE.and(fromIs[e * n + i], isMember[i]));
+                    toMember = FHE.or(toMember, FHE.and(toIs[e * n + i], isMember[i]));
+                }
+                euint64 weight = sparseEdges[e].encryptedWeight;
+                volume = FHE.add(volume, FHE.select(FHE.and(fromMember, toMember), weight, FHE.asEuint64(0)));
+            }
+            return volume;
+        }
+        
+        euint64[] storage encryptedAdjacencyMatrix = _adjacencyMatrix();
+        for (uint i = 0; i < n; i++) {
+            for (uint j = 0; j < n; j++) {
+                euint64 cell = encryptedAdjacencyMatrix[i * n + j];
+                volume = FHE.add(volume, FHE.select(FHE.and(isMember[i], isMember[j]), cell, FHE.asEuint64(0)));
+            }
+        }
+    }
+    
+    function _setRiskWeights(RiskWeights memory weights) private {
+        require(weights.volumeDivisor > 0, "Invalid volume divisor");
+        riskWeights = weights;
+        emit RiskWeightsUpdated(
+            weights.cycleWeight,
+            weights.volumeWeight,
+            weights.volumeDivisor,
+            weights.timingWeight,
+            weights.timingWindow,
+            weights.frontRunWeight
+        );
+    }
+    
+    /// @dev Number of trade pairs in the range whose encrypted timestamps are at most `window` apart
+    function _countCloseTrades(uint256 firstId, uint256 lastId, uint32 window) private returns (euint32 count) {
+        count = FHE.asEuint32(0);
+        for (uint256 a = firstId; a < lastId; a++) {
+            euint64 ta = encryptedTransactions[a].encryptedTimestamp;
+            for (uint256 b = a + 1; b <= lastId; b++) {
+                euint64 tb = encryptedTransactions[b].encryptedTimestamp;
+                euint64 gap = FHE.select(FHE.ge(ta, tb), FHE.sub(ta, tb), FHE.sub(tb, ta));
+                count = FHE.add(count, FHE.asEuint32(FHE.le(gap, uint64(window))));
+            }
+        }
+    }
+    
+    /// @notice Get per-node cycle participation counts and the total cycle count of an analysis
+    function getCycleCounts(uint256 analysisId) public view returns (euint32[] memory participation, euint32 total) {
+        return (cycleParticipation[analysisId], cycleTotals[analysisId]);
+    }
+    
+    function _storeAnalysisResults(
         uint256 analysisId,
         euint32[] memory encryptedRing,
         euint32 encryptedRiskScore
-    ) public onlyRegulator {
+    ) private {
+        _requireCurrentMatrix(analysisId);
+        _transition(analysisId, SessionState.Running, SessionState.Completed);
+        
         analysisResults[analysisId] = AnalysisResult({
             encryptedRingMembers: encryptedRing,
             encryptedRiskScore: encryptedRiskScore,
@@ -119,62 +616,10 @@ contract InsiderRingAnalysis is SepoliaConfig {
         emit AnalysisCompleted(analysisId);
     }
     
-    /// @notice Request decryption of analysis results
-    function requestResultDecryption(uint256 analysisId) public onlyRegulator {
-        AnalysisResult storage result = analysisResults[analysisId];
-        require(result.isComplete, "Analysis not complete");
-        require(!decryptedResults[analysisId].isRevealed, "Already revealed");
-        
-        // Prepare all ciphertexts for decryption
-        uint256 totalElements = result.encryptedRingMembers.length + 1;
-        bytes32[] memory ciphertexts = new bytes32[](totalElements);
-        
-        for (uint i = 0; i < result.encryptedRingMembers.length; i++) {
-            ciphertexts[i] = FHE.toBytes32(result.encryptedRingMembers[i]);
-        }
-        ciphertexts[result.encryptedRingMembers.length] = FHE.toBytes32(result.encryptedRiskScore);
-        
-        // Request decryption
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptAnalysisResult.selector);
-        requestToAnalysisId[reqId] = analysisId;
-    }
-    
-    /// @notice Callback for decrypted analysis results
-    function decryptAnalysisResult(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) public {
-        uint256 analysisId = requestToAnalysisId[requestId];
-        require(analysisId != 0, "Invalid request");
-        
-        AnalysisResult storage aResult = analysisResults[analysisId];
-        DecryptedResult storage dResult = decryptedResults[analysisId];
-        require(!dResult.isRevealed, "Already revealed");
-        
-        // Verify decryption proof
-        FHE.checkSignatures(requestId, cleartexts, proof);
-        
-        // Process decrypted values
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
-        
-        // First n-1 elements are ring members, last is risk score
-        uint32[] memory members = new uint32[](results.length - 1);
-        for (uint i = 0; i < results.length - 1; i++) {
-            members[i] = results[i];
-        }
-        
-        dResult.ringMembers = members;
-        dResult.riskScore = results[results.length - 1];
-        dResult.isRevealed = true;
-        
-        emit ResultRevealed(analysisId);
-    }
-    
     /// @notice Get encrypted adjacency matrix element
-    function getAdjacencyElement(uint256 i, uint256 j) public view returns (euint32) {
+    function getAdjacencyElement(uint256 i, uint256 j) public view returns (euint64) {
         require(i < matrixSize && j < matrixSize, "Invalid index");
-        return encryptedAdjacencyMatrix[i * matrixSize + j];
+        return _adjacencyMatrix()[i * matrixSize + j];
     }
     
     /// @notice Get encrypted analysis result
@@ -197,39 +642,93 @@ contract InsiderRingAnalysis is SepoliaConfig {
         return (r.ringMembers, r.riskScore, r.isRevealed);
     }
     
-    /// @notice Perform encrypted graph traversal (simplified)
-    function encryptedBFS(euint32 startNode) public view returns (euint32[] memory) {
-        require(matrixSize > 0, "Matrix not initialized");
+    /// @notice Compute which nodes are reachable from a public start node within `rounds` hops
+    function computeReachability(uint256 startNode, uint256 rounds) public onlyRegulator returns (uint256) {
+        uint256 n = _nodeCount();
+        require(startNode < n, "Invalid index");
+        
+        ebool[] memory frontier = new ebool[](n);
+        for (uint i = 0; i < n; i++) {
+            frontier[i] = FHE.asEbool(i == startNode);
+        }
+        return _storeReachability(frontier, rounds);
+    }
+    
+    /// @notice Compute which nodes are reachable from an encrypted start node within `rounds` hops
+    function computeReachabilityFromEncrypted(
+        externalEuint32 startNode,
+        bytes calldata inputProof,
+        uint256 rounds
+    ) public onlyRegulator returns (uint256) {
+        euint32 start = FHE.fromExternal(startNode, inputProof);
+        uint256 n = _nodeCount();
         
-        euint32[] memory visited = new euint32[](matrixSize);
-        euint32[] memory queue = new euint32[](matrixSize);
-        euint32[] memory result = new euint32[](matrixSize);
+        ebool[] memory frontier = new ebool[](n);
+        for (uint i = 0; i < n; i++) {
+            frontier[i] = FHE.eq(start, uint32(i));
+        }
+        return _storeReachability(frontier, rounds);
+    }
+    
+    /// @notice Get an encrypted reachability vector
+    function getReachability(uint256 resultId) public view returns (ebool[] memory) {
+        require(resultId > 0 && resultId <= reachabilityCount, "Invalid result");
+        return reachabilityResults[resultId];
+    }
+    
+    function _storeReachability(ebool[] memory frontier, uint256 rounds) private returns (uint256) {
+        ebool[] memory reached;
+        if (graphMode == GraphMode.Sparse) {
+            (ebool[] memory fromIs, ebool[] memory toIs) = _sparseIncidence();
+            reached = EncryptedGraph.sparseReachability(fromIs, toIs, frontier.length, frontier, rounds);
+        } else {
+            reached = EncryptedGraph.reachability(_edgeFlags(), frontier.length, frontier, rounds);
+        }
         
-        // Initialize arrays
-        for (uint i = 0; i < matrixSize; i++) {
-            visited[i] = FHE.asEuint32(0);
-            queue[i] = FHE.asEuint32(0);
-            result[i] = FHE.asEuint32(0);
+        reachabilityCount++;
+        uint256 resultId = reachabilityCount;
+        ebool[] storage stored = reachabilityResults[resultId];
+        for (uint i = 0; i < reached.length; i++) {
+            FHE.allowThis(reached[i]);
+            FHE.allow(reached[i], msg.sender);
+            stored.push(reached[i]);
         }
         
-        // Simplified BFS simulation
-        euint32 current = startNode;
-        euint32 index = FHE.asEuint32(0);
+        emit ReachabilityComputed(resultId, rounds);
+        return resultId;
+    }
+    
+    /// @dev Encrypted edge existence flags (weight != 0), row-major like the adjacency matrix,
+    /// for either graph representation
+    function _edgeFlags() internal returns (ebool[] memory edges) {
+        if (graphMode == GraphMode.Sparse) {
+            (ebool[] memory fromIs, ebool[] memory toIs) = _sparseIncidence();
+            return EncryptedGraph.sparseToDense(fromIs, toIs, _nodeCount());
+        }
+        require(matrixSize > 0, "Matrix not initialized");
         
-        // This is a conceptual representation - actual FHE operations would be more complex
-        for (uint i = 0; i < matrixSize; i++) {
-            ebool isVisited = FHE.ne(visited[FHE.decrypt(current)], FHE.asEuint32(1));
-            ebool shouldVisit = FHE.and(isVisited, FHE.gt(current, FHE.asEuint32(0)));
-            
-            // Conditional update (conceptual)
-            visited[FHE.decrypt(current)] = FHE.select(shouldVisit, FHE.asEuint32(1), visited[FHE.decrypt(current)]);
-            result[FHE.decrypt(index)] = FHE.select(shouldVisit, current, result[FHE.decrypt(index)]);
-            
-            // Update queue and current node (simplified)
-            index = FHE.add(index, FHE.asEuint32(1));
-            current = FHE.add(current, FHE.asEuint32(1));
+        euint64[] storage encryptedAdjacencyMatrix = _adjacencyMatrix();
+        edges = new ebool[](matrixSize * matrixSize);
+        for (uint i = 0; i < edges.length; i++) {
+            edges[i] = FHE.ne(encryptedAdjacencyMatrix[i], uint64(0));
         }
+    }
+    
+    /// @dev Match every sparse edge against the node table: fromIs[e * n + i] is true when edge e
+    /// leaves node i with a non-zero weight, toIs[e * n + j] when it enters node j
+    function _sparseIncidence() internal returns (ebool[] memory fromIs, ebool[] memory toIs) {
+        uint256 n = nodeTraderIds.length;
+        require(n > 0, "Node index table not set");
         
-        return result;
+        fromIs = new ebool[](sparseEdgeCount * n);
+        toIs = new ebool[](sparseEdgeCount * n);
+        for (uint e = 0; e < sparseEdgeCount; e++) {
+            EncryptedEdge storage edge = sparseEdges[e];
+            ebool nonZero = FHE.ne(edge.encryptedWeight, uint64(0));
+            for (uint i = 0; i < n; i++) {
+                fromIs[e * n + i] = FHE.and(FHE.eq(edge.encryptedFrom, nodeTraderIds[i]), nonZero);
+                toIs[e * n + i] = FHE.eq(edge.encryptedTo, nodeTraderIds[i]);
+            }
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,684 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, euint64, externalEuint8, externalEuint32, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @notice Implemented by contracts whose functions InsiderRingAnalysis serves through its fallback
+interface IAnalysisModule {
+    /// @notice Selectors of the functions the module implements
+    function moduleSelectors() external pure returns (bytes4[] memory);
+}
+
+/// @notice Storage layout, events and access control shared by InsiderRingAnalysis and its modules
+/// @dev Modules run through DELEGATECALL from the InsiderRingAnalysis fallback, so they inherit
+/// this contract and declare no state of their own
+abstract contract InsiderRingStorage is SepoliaConfig {
+    enum TradeSide {
+        Buy,
+        Sell
+    }
+    
+    enum InstrumentType {
+        Equity,
+        Bond,
+        Option,
+        Future,
+        Other
+    }
+    
+    struct EncryptedTransaction {
+        uint256 id;
+        euint32 encryptedTraderId;    // Encrypted trader identifier
+        euint32 encryptedCounterparty; // Encrypted counterparty identifier
+        euint32 encryptedSecurity;    // Encrypted security identifier
+        euint64 encryptedAmount;      // Encrypted notional, in the smallest currency unit
+        euint64 encryptedTimestamp;   // Encrypted execution time, unix seconds
+        euint64 encryptedPrice;       // Encrypted execution price, in the smallest currency unit
+        euint8 encryptedSide;         // Encrypted TradeSide
+        euint8 encryptedInstrumentType; // Encrypted InstrumentType
+        uint256 submissionTime;
+    }
+    
+    struct ExternalTransaction {
+        externalEuint32 traderId;
+        externalEuint32 counterparty;
+        externalEuint32 security;
+        externalEuint64 amount;
+        externalEuint64 timestamp;
+        externalEuint64 price;
+        externalEuint8 side;
+        externalEuint8 instrumentType;
+    }
+    
+    enum GraphMode {
+        Dense,      // n x n encrypted adjacency matrix
+        Sparse      // List of encrypted (from, to, weight) edges
+    }
+    
+    struct EncryptedEdge {
+        uint256 slot;
+        euint32 encryptedFrom;     // Encrypted trader pseudonym
+        euint32 encryptedTo;       // Encrypted counterparty pseudonym
+        euint64 encryptedWeight;   // Encrypted edge weight
+    }
+    
+    enum SessionState {
+        None,
+        Created,
+        Running,
+        Completed,
+        RevealRequested,
+        Revealed,
+        Cancelled,
+        ThresholdCheckRequested,    // Decrypting whether the risk score reaches the reveal threshold
+        AboveThreshold,             // Ring members may be sent for decryption
+        BelowThreshold              // Final: nothing beyond the threshold check is ever decrypted
+    }
+    
+    struct AnalysisSession {
+        uint256 id;
+        address creator;
+        uint256 matrixSize;       // Number of graph nodes when the session was created
+        uint256 matrixVersion;    // Matrix revision the analysis must run against
+        uint256 windowStart;      // Start of the analysed time window (unix seconds)
+        uint256 windowEnd;        // End of the analysed time window (unix seconds)
+        SessionState state;
+        uint256 createdAt;
+        uint256 updatedAt;
+    }
+    
+    struct MatrixInit {
+        uint256 size;       // Target matrix dimension
+        uint256 cursor;     // Cells of the new matrix written so far
+        uint256 generation; // Generation the new cells are written to
+        bool preserve;      // Copy overlapping cells from the current matrix (resize)
+        bool active;
+    }
+    
+    struct MatrixBuild {
+        uint256 firstId;    // First transaction of the build range
+        uint256 nextId;     // Next transaction to fold into the matrix
+        uint256 nextCell;   // Next matrix cell of that transaction (dense mode)
+        uint256 lastId;     // Last transaction of the build range
+        bool active;
+    }
+    
+    struct RiskWeights {
+        uint32 cycleWeight;      // Points per detected cycle
+        uint32 volumeWeight;     // Points per `volumeDivisor` of volume traded between ring members
+        uint32 volumeDivisor;
+        uint32 timingWeight;     // Points per pair of trades executed within `timingWindow`
+        uint32 timingWindow;     // Seconds
+        uint32 frontRunWeight;   // Points per trade front-running a large client order
+    }
+    
+    struct WashTradeScan {
+        uint256 firstId;    // First transaction of the scanned range
+        uint256 lastId;     // Last transaction of the scanned range
+        uint256 nextA;      // Transaction whose pairs are being checked
+        uint256 nextB;      // Next partner of nextA; equal to nextA for its self-dealing check
+        bool active;
+    }
+    
+    enum EventDirection {
+        Positive,   // Announcement expected to move the price up
+        Negative    // Announcement expected to move the price down
+    }
+    
+    struct CorporateEvent {
+        uint256 id;
+        uint32 securityId;          // Security identifier, as encrypted in transactions
+        uint64 announcementTime;    // Unix seconds, comparable with encrypted transaction timestamps
+        EventDirection direction;
+        bool active;                // Cleared when the event is retired
+    }
+    
+    struct CorporateEventInput {
+        uint32 securityId;
+        uint64 announcementTime;
+        EventDirection direction;
+    }
+    
+    struct EventWindowScan {
+        uint32 lookback;        // Seconds before the announcement that count as pre-announcement trading
+        uint256 firstId;        // First transaction of the scanned range
+        uint256 nextId;         // Next transaction to check
+        uint256 lastId;         // Last transaction of the scanned range
+        bool active;
+        euint32 tradeCount;     // Trades in the event's security inside the window
+        euint64 tradeVolume;    // Summed amounts of those trades
+    }
+    
+    enum WatchListKind {
+        Securities, // Restricted securities
+        Traders     // Watched trader pseudonyms, matched as trader or counterparty
+    }
+    
+    struct LargeOrder {
+        uint256 id;
+        address broker;                 // Broker that received the order
+        euint32 encryptedClient;        // Pseudonym of the client placing the order
+        euint32 encryptedSecurity;      // Encrypted security identifier
+        euint64 encryptedTimestamp;     // When the broker received the order, unix seconds
+        euint8 encryptedSide;           // Encrypted TradeSide
+        uint256 submissionTime;
+    }
+    
+    struct ExternalLargeOrder {
+        externalEuint32 client;
+        externalEuint32 security;
+        externalEuint64 timestamp;
+        externalEuint8 side;
+    }
+    
+    struct FrontRunScan {
+        uint32 window;          // Seconds before an order in which same-side trades count as front-running
+        uint256 firstOrder;     // Large orders the transactions are checked against
+        uint256 lastOrder;
+        uint256 firstId;        // First transaction of the scanned range
+        uint256 lastId;         // Last transaction of the scanned range
+        uint256 nextId;         // Transaction being checked
+        uint256 nextOrder;      // Next order to check it against
+        bool active;
+    }
+    
+    struct VolumeBaselineInput {
+        uint32 securityId;
+        externalEuint64 baseline;   // Expected volume of the security per time bucket
+    }
+    
+    struct VolumeSpikeScan {
+        uint64 startTime;       // Start of the first time bucket, unix seconds
+        uint32 bucketSeconds;   // Length of each time bucket
+        uint32 bucketCount;     // Time buckets per security
+        uint256 firstId;        // First transaction of the scanned range
+        uint256 lastId;         // Last transaction of the scanned range
+        uint256 nextId;         // Transaction being bucketed
+        uint256 nextCell;       // Next security/bucket cell to check it against
+        bool active;
+    }
+    
+    struct WatchListScan {
+        uint256 firstId;        // First transaction of the scanned range
+        uint256 nextId;         // Next transaction to check
+        uint256 lastId;         // Last transaction of the scanned range
+        uint256 listVersion;    // Watch list version the scan matches against
+        bool active;
+    }
+    
+    struct GraphSnapshot {
+        uint256 nodeCount;      // Graph nodes when the snapshot started
+        uint256 edgeCount;      // Sparse edges to fold in
+        uint256 nextEdge;       // Next edge to fold; edges below it are in the cells
+        uint256 nextCell;       // Next cell of that edge
+        bool active;
+    }
+    
+    struct NodeMetrics {
+        euint32 inDegree;       // Nodes with an edge into this node
+        euint32 outDegree;      // Nodes this node has an edge to
+        euint64 inVolume;       // Summed weights of incoming edges
+        euint64 outVolume;      // Summed weights of outgoing edges
+        euint32 reciprocity;    // Nodes with edges in both directions
+    }
+    
+    struct CentralityRun {
+        uint256 nextNode;       // Next node to compute; nodes below it have metrics
+        uint256 nodeCount;      // Graph nodes when the run started
+        bool active;
+    }
+    
+    struct TriangleScan {
+        uint256 nodeCount;      // Graph nodes when the scan started
+        uint256 nextI;          // Node whose neighbour pairs are being checked
+        uint256 nextJ;          // Next pair (nextJ, nextK) of other nodes to check, nextJ < nextK
+        uint256 nextK;
+        bool active;
+    }
+    
+    struct ClusteringCounts {
+        euint32 closedTriplets;     // Numerator: sum over nodes of the triangles they are on
+        euint32 connectedTriplets;  // Denominator: sum over nodes of their linked neighbour pairs
+    }
+    
+    struct ComponentRun {
+        uint256 nodeCount;      // Graph nodes when the run started
+        uint256 rounds;         // Label propagation rounds to run
+        uint256 round;          // Current round; equal to `rounds` while picking the ring
+        uint256 next;           // Next node to relabel, or next label to size while picking the ring
+        uint32 minSharedCells;  // Similarity cells that also link two nodes; 0 for direct edges only
+        bool active;
+    }
+    
+    struct LargestComponent {
+        euint32 label;          // Label of the largest suspicious component so far, 0 if none
+        euint32 size;
+    }
+    
+    struct PageRankRun {
+        uint256 nodeCount;      // Graph nodes when the run started
+        uint256 iterations;     // Power iterations to run
+        uint256 dampingBps;     // Damping factor in basis points
+        uint256 iteration;      // Current iteration
+        uint256 next;           // Next step of the iteration: node `next` shares out its score
+                                // below nodeCount, node `next - nodeCount` collects its new one above
+        bool active;
+    }
+    
+    struct HopDistanceRun {
+        uint256 analysisId;     // Session whose graph is walked
+        uint256 nodeCount;      // Graph nodes when the run started
+        uint256 maxHops;        // Largest distance looked for
+        uint256 hops;           // Hops walked so far
+        uint256 next;           // Next step of the hop: node `next` collects whether it is reached
+                                // below nodeCount, the new frontier is checked for the target at it
+        bool active;
+    }
+    
+    struct SimilarityScan {
+        uint64 startTime;       // Start of the first time bucket, unix seconds
+        uint32 bucketSeconds;   // Length of each time bucket
+        uint32 bucketCount;     // Time buckets per security
+        uint256 nodeCount;      // Node index table size when the scan started
+        uint256 firstId;        // First transaction of the scanned range
+        uint256 lastId;         // Last transaction of the scanned range
+        uint256 nextCell;       // Security/bucket cell being scanned
+        uint256 nextStep;       // Next step of the cell: transaction `firstId + nextStep` below the
+                                // range length, node pair `nextStep - range length` above it
+        bool active;
+    }
+    
+    struct AnalysisResult {
+        euint32[] encryptedRingMembers; // Encrypted identifiers of ring members
+        euint32 encryptedRiskScore;    // Encrypted risk score
+        bool isComplete;
+    }
+    
+    struct DecryptedResult {
+        uint32[] ringMembers;
+        uint32 riskScore;
+        bool isRevealed;
+    }
+    
+    enum DecryptionKind {
+        ThresholdCheck,     // riskScore >= revealThreshold, decrypted by decryptThresholdCheck
+        RingMembers         // Ring members and risk score, decrypted by decryptAnalysisResult
+    }
+    
+    enum DecryptionStatus {
+        None,
+        Pending,
+        Fulfilled,
+        Cancelled,
+        Superseded          // Timed out and re-requested under a new request id
+    }
+    
+    // Decryption oracle request. The deadline does not stop the oracle from answering; once it
+    // has passed, the request can be retried or cancelled by any regulator.
+    struct DecryptionRequest {
+        uint256 analysisId;
+        DecryptionKind kind;
+        DecryptionStatus status;
+        address requester;
+        uint256 requestedAt;
+        uint256 deadline;
+    }
+    
+    // Regulator approvals for decrypting an analysis's ring members. A round opens with its
+    // first approval and lapses once revealApprovalWindow has passed without reaching quorum.
+    struct RevealApprovals {
+        uint256 round;
+        uint256 openedAt;
+        uint256 approvals;
+    }
+    
+    // Roles
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant REGULATOR_ROLE = keccak256("REGULATOR_ROLE");
+    bytes32 public constant BROKER_ROLE = keccak256("BROKER_ROLE");
+    
+    // Contract state
+    uint256 public transactionCount;
+    mapping(uint256 => EncryptedTransaction) public encryptedTransactions;
+    mapping(uint256 => AnalysisResult) public analysisResults;
+    mapping(uint256 => DecryptedResult) public decryptedResults;
+    
+    // Analysis sessions
+    uint256 public sessionCount;
+    mapping(uint256 => AnalysisSession) public analysisSessions;
+    
+    // Graph analysis state
+    // Matrix cells live in numbered generations: a (re)initialization fills a fresh generation
+    // in chunks and switches over once it is complete. A cancelled initialization leaves its
+    // generation unused, so the next one never starts on stale cells.
+    mapping(uint256 => euint64[]) internal matrixGenerations;
+    uint256 internal matrixGeneration;
+    uint256 internal latestMatrixGeneration;
+    uint256 public matrixSize;
+    uint256 public matrixVersion;
+    MatrixInit public matrixInit;
+    // Set when a build is cancelled halfway: the graph holds part of its range until the matrix
+    // is initialized afresh or the sparse edges are cleared
+    bool public matrixPartial;
+    
+    // Sparse graph mode: edges stored in public slots 0 .. sparseEdgeCount - 1
+    GraphMode public graphMode;
+    uint256 public sparseEdgeCount;
+    mapping(uint256 => EncryptedEdge) internal sparseEdges;
+    
+    // Public node index table: node i stands for trader pseudonym nodeTraderIds[i]
+    uint32[] public nodeTraderIds;
+    MatrixBuild public matrixBuild;
+    
+    // Risk scoring model, set by governance (admins)
+    uint256 public constant MAX_SCORED_TRANSACTIONS = 16;
+    RiskWeights public riskWeights;
+    
+    // Cycle detection results per analysis
+    mapping(uint256 => euint32[]) internal cycleParticipation;
+    mapping(uint256 => euint32) internal cycleTotals;
+    
+    // Wash-trade detection: encrypted matching window (seconds) and per-analysis counts
+    euint32 internal washTradeWindow;
+    mapping(uint256 => WashTradeScan) public washTradeScans;
+    mapping(uint256 => euint32) internal washTradeCounts;
+    
+    // Public corporate event registry and pre-announcement scans per analysis and event
+    uint256 public corporateEventCount;
+    mapping(uint256 => CorporateEvent) public corporateEvents;
+    mapping(uint256 => mapping(uint256 => EventWindowScan)) public eventWindowScans;
+    
+    // Encrypted watch lists uploaded by regulators. Entries are only ever allowed to this
+    // contract, so they can be matched against but not decrypted; every change bumps the version.
+    uint256 public constant MAX_WATCH_LIST_SIZE = 32;
+    mapping(WatchListKind => euint32[]) internal watchLists;
+    uint256 public watchListVersion;
+    
+    // Watch list scans per analysis: a private flag per transaction and the revealable hit count
+    mapping(uint256 => WatchListScan) public watchListScans;
+    mapping(uint256 => mapping(uint256 => ebool)) internal watchListFlags;
+    mapping(uint256 => euint32) internal watchListHits;
+    
+    // Encrypted large client orders reported by brokers, and front-running scans per analysis:
+    // hits of the transaction being checked, running hits per node and in total, and the total of
+    // the finished scan that feeds the risk score
+    uint256 public largeOrderCount;
+    mapping(uint256 => LargeOrder) internal largeOrders;
+    mapping(uint256 => FrontRunScan) internal frontRunScans;
+    mapping(uint256 => euint32) internal frontRunPending;
+    mapping(uint256 => euint32[]) internal frontRunCounts;
+    mapping(uint256 => euint32) internal frontRunHits;
+    mapping(uint256 => euint32) internal frontRunTotals;
+    
+    // Encrypted per-bucket volume baselines set by regulators, and volume spike scans per analysis.
+    // Cells are ordered security-major (cell = security index * bucketCount + bucket). Volumes are
+    // only ever allowed to this contract; the spike flags and trade counts are the revealable results.
+    uint256 public constant MAX_VOLUME_CELLS = 64;
+    mapping(uint32 => euint64) internal volumeBaselines;
+    mapping(uint256 => VolumeSpikeScan) internal volumeSpikeScans;
+    mapping(uint256 => uint32[]) internal volumeSpikeSecurities;
+    mapping(uint256 => euint64[]) internal volumeSpikeBaselines;
+    mapping(uint256 => euint64[]) internal bucketVolumes;
+    mapping(uint256 => euint32[]) internal bucketTradeCounts;
+    mapping(uint256 => ebool[]) internal volumeSpikeFlags;
+    
+    // Sparse graphs folded into per-analysis n x n cells, laid out like the adjacency matrix, so
+    // the network metrics read the same cells in either graph mode
+    mapping(uint256 => GraphSnapshot) internal graphSnapshots;
+    mapping(uint256 => euint64[]) internal snapshotCells;
+    
+    // Degree and volume centrality per analysis and node index
+    mapping(uint256 => CentralityRun) internal centralityRuns;
+    mapping(uint256 => mapping(uint256 => NodeMetrics)) internal nodeMetrics;
+    
+    // Triangle counts per node and the global clustering coefficient, over the undirected graph
+    mapping(uint256 => TriangleScan) internal triangleScans;
+    mapping(uint256 => euint32[]) internal nodeTriangles;
+    mapping(uint256 => ClusteringCounts) internal clusteringCounts;
+    
+    // Connected component labels per analysis and the ring derived from them: i + 1 for the
+    // nodes of the largest component with a node on a detected cycle, 0 for the others
+    mapping(uint256 => ComponentRun) internal componentRuns;
+    mapping(uint256 => euint32[]) internal componentLabels;
+    mapping(uint256 => LargestComponent) internal largestComponents;
+    mapping(uint256 => euint32[]) internal componentRings;
+    
+    // Fixed-point PageRank per analysis: scores in units of 1 / PAGERANK_SCALE, and the share of
+    // its score each node passes along every outgoing edge in the current iteration
+    uint64 public constant PAGERANK_SCALE = 1_000_000;
+    uint256 public constant MAX_PAGERANK_ITERATIONS = 64;
+    mapping(uint256 => PageRankRun) internal pageRankRuns;
+    mapping(uint256 => euint64[]) internal pageRankScores;
+    mapping(uint256 => euint64[]) internal pageRankShares;
+    
+    // Directed hop distances between two encrypted nodes, one encrypted count per result, with the
+    // nodes reached so far, those reached after the hop being walked and the encrypted target node
+    uint256 public hopDistanceCount;
+    mapping(uint256 => euint32) internal hopDistances;
+    mapping(uint256 => HopDistanceRun) internal hopDistanceRuns;
+    mapping(uint256 => ebool[]) internal hopReached;
+    mapping(uint256 => ebool[]) internal hopFrontier;
+    mapping(uint256 => euint32) internal hopTargets;
+    
+    // Co-trading similarity per analysis: whether each node traded in the cell being scanned, and
+    // the node-by-node count of security/bucket cells both traded in, laid out like the adjacency
+    // matrix (symmetric, zero diagonal). Cells are ordered security-major, as in volume spike scans.
+    uint256 public constant MAX_SIMILARITY_CELLS = 64;
+    mapping(uint256 => SimilarityScan) internal similarityScans;
+    mapping(uint256 => uint32[]) internal similaritySecurities;
+    mapping(uint256 => ebool[]) internal cellActivity;
+    mapping(uint256 => euint32[]) internal similarityMatrices;
+    
+    // Reachability results, one encrypted flag per node
+    uint256 public reachabilityCount;
+    mapping(uint256 => ebool[]) internal reachabilityResults;
+    
+    // Two-stage reveal: only results whose risk score reaches the threshold are decrypted
+    uint32 public revealThreshold;
+    
+    // Member decryption needs revealQuorum regulator approvals within revealApprovalWindow seconds
+    uint256 public revealQuorum;
+    uint256 public revealApprovalWindow;
+    mapping(uint256 => RevealApprovals) public revealApprovals;
+    // Approval round each regulator last approved an analysis in
+    mapping(uint256 => mapping(address => uint256)) internal approvalRounds;
+    
+    // Decryption oracle requests, the latest request of each analysis, and the encrypted
+    // threshold flag each analysis sent for decryption together with the threshold it was
+    // computed against. Both are fixed by the first threshold check of an analysis.
+    uint256 public decryptionTimeout;
+    mapping(uint256 => DecryptionRequest) public decryptionRequests;
+    mapping(uint256 => uint256) public latestDecryptionRequest;
+    mapping(uint256 => ebool) internal thresholdChecks;
+    mapping(uint256 => uint32) internal checkedThresholds;
+    
+    // Role membership
+    mapping(bytes32 => mapping(address => bool)) internal roleMembers;
+    uint256 public adminCount;
+    uint256 public regulatorCount;
+    
+    // Module routing: functions InsiderRingAnalysis does not implement itself run in the module
+    // registered for their selector
+    mapping(bytes4 => address) public moduleForSelector;
+    
+    // Events
+    event TransactionSubmitted(uint256 indexed id, uint256 timestamp);
+    event TransactionBatchSubmitted(uint256 indexed firstId, uint256 indexed lastId, address indexed broker);
+    event AnalysisSessionCreated(uint256 indexed sessionId, address indexed creator, uint256 windowStart, uint256 windowEnd);
+    event SessionStateChanged(uint256 indexed sessionId, SessionState from, SessionState to);
+    event AnalysisStarted(uint256 indexed analysisId);
+    event AnalysisCompleted(uint256 indexed analysisId);
+    event ResultRevealed(uint256 indexed analysisId);
+    event RevealThresholdUpdated(uint32 threshold);
+    event ThresholdCheckRequested(uint256 indexed analysisId, uint32 threshold);
+    event ThresholdCheckRevealed(uint256 indexed analysisId, bool aboveThreshold);
+    event DecryptionTimeoutUpdated(uint256 timeout);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed analysisId, DecryptionKind kind, address indexed requester, uint256 deadline);
+    event DecryptionFulfilled(uint256 indexed requestId, uint256 indexed analysisId);
+    event DecryptionRetried(uint256 indexed requestId, uint256 indexed retryRequestId, uint256 indexed analysisId);
+    event DecryptionCancelled(uint256 indexed requestId, uint256 indexed analysisId, address indexed canceller);
+    // A verified answer that arrived after its request was cancelled or superseded
+    event DecryptionDiscarded(uint256 indexed requestId, uint256 indexed analysisId, DecryptionStatus status);
+    event RevealQuorumUpdated(uint256 quorum, uint256 approvalWindow);
+    event RevealApproved(uint256 indexed analysisId, address indexed regulator, bytes32 justificationHash, uint256 approvals, uint256 quorum);
+    event RevealApprovalsExpired(uint256 indexed analysisId, uint256 round, uint256 approvals);
+    event RevealQuorumReached(uint256 indexed analysisId, uint256 round);
+    event MatrixInitStarted(uint256 size, bool preserve);
+    event MatrixInitProgress(uint256 cursor, uint256 totalCells);
+    event MatrixInitCompleted(uint256 size);
+    event MatrixInitCancelled(uint256 size, uint256 cursor);
+    event NodeIndexTableSet(uint256 size);
+    event GraphModeChanged(GraphMode mode);
+    event SparseEdgeAdded(uint256 indexed slot);
+    event SparseEdgesCleared();
+    event MatrixBuildStarted(uint256 indexed firstId, uint256 indexed lastId);
+    event MatrixBuildProgress(uint256 processedUpTo, uint256 nextCell, uint256 lastId);
+    event MatrixBuildCompleted(uint256 indexed lastId);
+    event MatrixBuildCancelled(uint256 nextId, uint256 lastId);
+    event CyclesDetected(uint256 indexed analysisId);
+    event RiskWeightsUpdated(
+        uint32 cycleWeight,
+        uint32 volumeWeight,
+        uint32 volumeDivisor,
+        uint32 timingWeight,
+        uint32 timingWindow,
+        uint32 frontRunWeight
+    );
+    event RiskScoreComputed(uint256 indexed analysisId, uint256 firstId, uint256 lastId);
+    event WashTradeWindowUpdated(address indexed admin);
+    event WashTradeScanStarted(uint256 indexed analysisId, uint256 firstId, uint256 lastId);
+    event WashTradeScanProgress(uint256 indexed analysisId, uint256 nextA, uint256 nextB);
+    event WashTradesDetected(uint256 indexed analysisId);
+    event CorporateEventRegistered(uint256 indexed eventId, uint32 indexed securityId, uint64 announcementTime, EventDirection direction);
+    event CorporateEventRetired(uint256 indexed eventId);
+    event EventWindowScanStarted(uint256 indexed analysisId, uint256 indexed eventId, uint32 lookback, uint256 firstId, uint256 lastId);
+    event EventWindowScanProgress(uint256 indexed analysisId, uint256 indexed eventId, uint256 processedUpTo, uint256 lastId);
+    event EventWindowScanned(uint256 indexed analysisId, uint256 indexed eventId);
+    event WatchListUpdated(WatchListKind indexed kind, uint256 size, uint256 version, address indexed regulator);
+    event WatchListScanStarted(uint256 indexed analysisId, uint256 firstId, uint256 lastId);
+    event WatchListScanProgress(uint256 indexed analysisId, uint256 processedUpTo, uint256 lastId);
+    event WatchListScanned(uint256 indexed analysisId);
+    event LargeOrdersSubmitted(uint256 indexed firstId, uint256 indexed lastId, address indexed broker);
+    event FrontRunScanStarted(uint256 indexed analysisId, uint32 window, uint256 firstOrder, uint256 lastOrder, uint256 firstId, uint256 lastId);
+    event FrontRunScanProgress(uint256 indexed analysisId, uint256 nextId, uint256 nextOrder);
+    event FrontRunningDetected(uint256 indexed analysisId);
+    event VolumeBaselinesSet(uint256 count, address indexed regulator);
+    event VolumeSpikeScanStarted(
+        uint256 indexed analysisId,
+        uint64 startTime,
+        uint32 bucketSeconds,
+        uint32 bucketCount,
+        uint256 firstId,
+        uint256 lastId
+    );
+    event VolumeSpikeScanProgress(uint256 indexed analysisId, uint256 nextId, uint256 nextCell);
+    event VolumeSpikesDetected(uint256 indexed analysisId);
+    event GraphSnapshotStarted(uint256 indexed analysisId, uint256 nodeCount, uint256 edgeCount);
+    event GraphSnapshotProgress(uint256 indexed analysisId, uint256 nextEdge, uint256 nextCell);
+    event GraphSnapshotTaken(uint256 indexed analysisId);
+    event CentralityStarted(uint256 indexed analysisId, uint256 nodeCount);
+    event CentralityProgress(uint256 indexed analysisId, uint256 processedUpTo, uint256 nodeCount);
+    event CentralityComputed(uint256 indexed analysisId);
+    event NodeMetricsGranted(uint256 indexed analysisId, uint256 indexed node, address indexed analyst);
+    event TriangleScanStarted(uint256 indexed analysisId, uint256 nodeCount);
+    event TriangleScanProgress(uint256 indexed analysisId, uint256 nextI, uint256 nextJ, uint256 nextK);
+    event TrianglesCounted(uint256 indexed analysisId);
+    event ComponentLabellingStarted(uint256 indexed analysisId, uint256 nodeCount, uint256 rounds);
+    event ComponentLabellingProgress(uint256 indexed analysisId, uint256 round, uint256 next);
+    event ComponentsLabelled(uint256 indexed analysisId);
+    event PageRankStarted(uint256 indexed analysisId, uint256 nodeCount, uint256 iterations, uint256 dampingBps);
+    event PageRankProgress(uint256 indexed analysisId, uint256 iteration, uint256 next);
+    event PageRankComputed(uint256 indexed analysisId);
+    event HopDistanceStarted(uint256 indexed resultId, uint256 indexed analysisId, uint256 maxHops);
+    event HopDistanceProgress(uint256 indexed resultId, uint256 hops, uint256 next);
+    event HopDistanceComputed(uint256 indexed resultId, uint256 maxHops);
+    event HopDistanceGranted(uint256 indexed resultId, address indexed analyst);
+    event SimilarityScanStarted(uint256 indexed analysisId, uint256 nodeCount, uint256 cells, uint256 firstId, uint256 lastId);
+    event SimilarityScanProgress(uint256 indexed analysisId, uint256 nextCell, uint256 nextStep);
+    event SimilarityComputed(uint256 indexed analysisId);
+    event ReachabilityComputed(uint256 indexed resultId, uint256 rounds);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event ModuleRegistered(address indexed module, uint256 selectorCount);
+    
+    modifier onlyAdmin() {
+        require(roleMembers[ADMIN_ROLE][msg.sender], "Caller is not an admin");
+        _;
+    }
+    
+    modifier onlyRegulator() {
+        require(roleMembers[REGULATOR_ROLE][msg.sender], "Caller is not a regulator");
+        _;
+    }
+    
+    modifier onlyBroker() {
+        require(roleMembers[BROKER_ROLE][msg.sender], "Caller is not a broker");
+        _;
+    }
+    
+    /// @dev Verify an external ciphertext and keep it usable by this contract and the submitting broker
+    function _importCiphertext(externalEuint32 handle, bytes calldata inputProof) internal returns (euint32) {
+        euint32 value = FHE.fromExternal(handle, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        return value;
+    }
+    
+    function _importCiphertext(externalEuint64 handle, bytes calldata inputProof) internal returns (euint64) {
+        euint64 value = FHE.fromExternal(handle, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        return value;
+    }
+    
+    function _importCiphertext(externalEuint8 handle, bytes calldata inputProof) internal returns (euint8) {
+        euint8 value = FHE.fromExternal(handle, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        return value;
+    }
+    
+    function _transition(uint256 sessionId, SessionState from, SessionState to) internal {
+        AnalysisSession storage session = analysisSessions[sessionId];
+        require(session.id != 0, "Unknown session");
+        require(session.state == from, "Invalid session state");
+        
+        session.state = to;
+        session.updatedAt = block.timestamp;
+        emit SessionStateChanged(sessionId, from, to);
+    }
+    
+    function _adjacencyMatrix() internal view returns (euint64[] storage) {
+        return matrixGenerations[matrixGeneration];
+    }
+    
+    function _requireCurrentMatrix(uint256 sessionId) internal view {
+        require(analysisSessions[sessionId].matrixVersion == matrixVersion, "Matrix changed since session creation");
+    }
+    
+    /// @dev Number of graph nodes: the matrix dimension, or the node table size in sparse mode
+    function _nodeCount() internal view returns (uint256) {
+        return graphMode == GraphMode.Sparse ? nodeTraderIds.length : matrixSize;
+    }
+    
+    function _setRevealThreshold(uint32 threshold) internal {
+        require(threshold > 0, "Invalid threshold");
+        revealThreshold = threshold;
+        emit RevealThresholdUpdated(threshold);
+    }
+    
+    function _setDecryptionTimeout(uint256 timeout) internal {
+        require(timeout > 0, "Invalid timeout");
+        decryptionTimeout = timeout;
+        emit DecryptionTimeoutUpdated(timeout);
+    }
+    
+    function _setRevealQuorum(uint256 quorum, uint256 approvalWindow) internal {
+        require(quorum > 0 && quorum <= regulatorCount, "Invalid quorum");
+        require(approvalWindow > 0, "Invalid approval window");
+        revealQuorum = quorum;
+        revealApprovalWindow = approvalWindow;
+        emit RevealQuorumUpdated(quorum, approvalWindow);
+    }
+}
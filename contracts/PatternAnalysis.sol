@@ -0,0 +1,618 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { EncryptedPatterns } from "./EncryptedPatterns.sol";
+import { IAnalysisModule, InsiderRingStorage } from "./InsiderRingStorage.sol";
+
+/// @notice Trade pattern analyses of InsiderRingAnalysis: wash trades, pre-announcement trading,
+/// restricted/watch list matching, front-running of large client orders and volume spikes
+/// @dev Registered with InsiderRingAnalysis at deployment; its functions are called on the
+/// InsiderRingAnalysis address and run against that contract's storage
+contract PatternAnalysis is InsiderRingStorage, IAnalysisModule {
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](25);
+        selectors[0] = this.setWashTradeWindow.selector;
+        selectors[1] = this.startWashTradeScan.selector;
+        selectors[2] = this.continueWashTradeScan.selector;
+        selectors[3] = this.getWashTradeCount.selector;
+        selectors[4] = this.registerCorporateEvents.selector;
+        selectors[5] = this.retireCorporateEvent.selector;
+        selectors[6] = this.startEventWindowScan.selector;
+        selectors[7] = this.continueEventWindowScan.selector;
+        selectors[8] = this.getEventWindowResult.selector;
+        selectors[9] = this.addWatchListEntries.selector;
+        selectors[10] = this.clearWatchList.selector;
+        selectors[11] = this.getWatchListSize.selector;
+        selectors[12] = this.startWatchListScan.selector;
+        selectors[13] = this.continueWatchListScan.selector;
+        selectors[14] = this.getWatchListHits.selector;
+        selectors[15] = this.submitLargeOrders.selector;
+        selectors[16] = this.startFrontRunScan.selector;
+        selectors[17] = this.continueFrontRunScan.selector;
+        selectors[18] = this.getFrontRunScan.selector;
+        selectors[19] = this.getFrontRunCounts.selector;
+        selectors[20] = this.setVolumeBaselines.selector;
+        selectors[21] = this.startVolumeSpikeScan.selector;
+        selectors[22] = this.continueVolumeSpikeScan.selector;
+        selectors[23] = this.getVolumeSpikeScan.selector;
+        selectors[24] = this.getVolumeSpikes.selector;
+    }
+    
+    /// @notice Set the encrypted time delta within which opposite trades count as a wash trade
+    function setWashTradeWindow(externalEuint32 encryptedWindow, bytes calldata inputProof) public onlyAdmin {
+        washTradeWindow = _importCiphertext(encryptedWindow, inputProof);
+        emit WashTradeWindowUpdated(msg.sender);
+    }
+    
+    /// @notice Start counting wash trades among a range of transactions for a running analysis
+    /// @dev Restarts the count if the analysis was already scanned
+    function startWashTradeScan(uint256 analysisId, uint256 firstId, uint256 lastId) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(FHE.isInitialized(washTradeWindow), "Wash-trade window not set");
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        
+        washTradeScans[analysisId] = WashTradeScan({
+            firstId: firstId,
+            lastId: lastId,
+            nextA: firstId,
+            nextB: firstId,
+            active: true
+        });
+        washTradeCounts[analysisId] = FHE.allowThis(FHE.asEuint32(0));
+        emit WashTradeScanStarted(analysisId, firstId, lastId);
+    }
+    
+    /// @notice Check up to `maxChecks` more trades or trade pairs of a wash-trade scan
+    /// @dev Each trade is checked once for self-dealing and once against every later trade in
+    /// the range for a swapped-party trade on the same security within the window. The finished
+    /// count is granted to the regulator completing the scan.
+    function continueWashTradeScan(uint256 analysisId, uint256 maxChecks) public onlyRegulator returns (bool done) {
+        WashTradeScan storage scan = washTradeScans[analysisId];
+        require(scan.active, "No wash-trade scan in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(maxChecks > 0, "Invalid chunk size");
+        
+        euint32 window = washTradeWindow;
+        euint32 count = washTradeCounts[analysisId];
+        uint256 a = scan.nextA;
+        uint256 b = scan.nextB;
+        EncryptedPatterns.Trade memory tradeA = _patternTrade(a);
+        for (uint256 k = 0; k < maxChecks && a <= scan.lastId; k++) {
+            ebool hit = a == b
+                ? EncryptedPatterns.isSelfTrade(tradeA)
+                : EncryptedPatterns.isWashPair(tradeA, _patternTrade(b), window);
+            count = FHE.add(count, FHE.asEuint32(hit));
+            
+            if (b < scan.lastId) {
+                b++;
+            } else {
+                a++;
+                b = a;
+                tradeA = _patternTrade(a);
+            }
+        }
+        
+        washTradeCounts[analysisId] = FHE.allowThis(count);
+        scan.nextA = a;
+        scan.nextB = b;
+        emit WashTradeScanProgress(analysisId, a, b);
+        
+        done = a > scan.lastId;
+        if (done) {
+            scan.active = false;
+            FHE.allow(count, msg.sender);
+            emit WashTradesDetected(analysisId);
+        }
+    }
+    
+    /// @notice Get the encrypted wash-trade count of an analysis
+    function getWashTradeCount(uint256 analysisId) public view returns (euint32) {
+        return washTradeCounts[analysisId];
+    }
+    
+    function _patternTrade(uint256 id) private view returns (EncryptedPatterns.Trade memory) {
+        EncryptedTransaction storage trade = encryptedTransactions[id];
+        return EncryptedPatterns.Trade({
+            trader: trade.encryptedTraderId,
+            counterparty: trade.encryptedCounterparty,
+            security: trade.encryptedSecurity,
+            timestamp: trade.encryptedTimestamp
+        });
+    }
+    
+    /// @notice Register corporate events: security, announcement time and expected price direction
+    function registerCorporateEvents(CorporateEventInput[] calldata events) public onlyRegulator returns (uint256 firstId) {
+        require(events.length > 0, "Empty batch");
+        
+        firstId = corporateEventCount + 1;
+        for (uint i = 0; i < events.length; i++) {
+            uint256 eventId = ++corporateEventCount;
+            corporateEvents[eventId] = CorporateEvent({
+                id: eventId,
+                securityId: events[i].securityId,
+                announcementTime: events[i].announcementTime,
+                direction: events[i].direction,
+                active: true
+            });
+            emit CorporateEventRegistered(eventId, events[i].securityId, events[i].announcementTime, events[i].direction);
+        }
+    }
+    
+    /// @notice Retire a corporate event so no new scans can start against it
+    function retireCorporateEvent(uint256 eventId) public onlyRegulator {
+        CorporateEvent storage ev = corporateEvents[eventId];
+        require(ev.active, "Unknown or retired event");
+        ev.active = false;
+        emit CorporateEventRetired(eventId);
+    }
+    
+    /// @notice Start counting and summing the trades in an event's security executed within
+    /// `lookback` seconds before its announcement, over a range of transactions
+    /// @dev Restarts the scan if this analysis already scanned the event
+    function startEventWindowScan(
+        uint256 analysisId,
+        uint256 eventId,
+        uint32 lookback,
+        uint256 firstId,
+        uint256 lastId
+    ) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(corporateEvents[eventId].active, "Unknown or retired event");
+        require(lookback > 0, "Invalid look-back window");
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        
+        eventWindowScans[analysisId][eventId] = EventWindowScan({
+            lookback: lookback,
+            firstId: firstId,
+            nextId: firstId,
+            lastId: lastId,
+            active: true,
+            tradeCount: FHE.allowThis(FHE.asEuint32(0)),
+            tradeVolume: FHE.allowThis(FHE.asEuint64(0))
+        });
+        emit EventWindowScanStarted(analysisId, eventId, lookback, firstId, lastId);
+    }
+    
+    /// @notice Check up to `maxTransactions` more transactions of a pre-announcement scan
+    /// @dev A trade is inside the window when its encrypted security equals the event's and its
+    /// encrypted timestamp lies in [announcementTime - lookback, announcementTime). The finished
+    /// count and volume are granted to the regulator completing the scan.
+    function continueEventWindowScan(
+        uint256 analysisId,
+        uint256 eventId,
+        uint256 maxTransactions
+    ) public onlyRegulator returns (bool done) {
+        EventWindowScan storage scan = eventWindowScans[analysisId][eventId];
+        require(scan.active, "No event window scan in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(maxTransactions > 0, "Invalid chunk size");
+        
+        CorporateEvent storage ev = corporateEvents[eventId];
+        uint64 windowEnd = ev.announcementTime;
+        uint64 windowStart = windowEnd > scan.lookback ? windowEnd - scan.lookback : 0;
+        uint256 end = scan.nextId + maxTransactions - 1;
+        if (end > scan.lastId) end = scan.lastId;
+        
+        euint32 count = scan.tradeCount;
+        euint64 volume = scan.tradeVolume;
+        for (uint256 id = scan.nextId; id <= end; id++) {
+            ebool hit = EncryptedPatterns.isInWindow(_patternTrade(id), ev.securityId, windowStart, windowEnd);
+            count = FHE.add(count, FHE.asEuint32(hit));
+            volume = FHE.add(volume, FHE.select(hit, encryptedTransactions[id].encryptedAmount, FHE.asEuint64(0)));
+        }
+        
+        scan.tradeCount = FHE.allowThis(count);
+        scan.tradeVolume = FHE.allowThis(volume);
+        scan.nextId = end + 1;
+        emit EventWindowScanProgress(analysisId, eventId, end, scan.lastId);
+        
+        done = end == scan.lastId;
+        if (done) {
+            scan.active = false;
+            FHE.allow(count, msg.sender);
+            FHE.allow(volume, msg.sender);
+            emit EventWindowScanned(analysisId, eventId);
+        }
+    }
+    
+    /// @notice Get the encrypted pre-announcement trade count and volume of an analysis for an event
+    function getEventWindowResult(
+        uint256 analysisId,
+        uint256 eventId
+    ) public view returns (euint32 tradeCount, euint64 tradeVolume) {
+        EventWindowScan storage scan = eventWindowScans[analysisId][eventId];
+        return (scan.tradeCount, scan.tradeVolume);
+    }
+    
+    /// @notice Append encrypted security IDs or trader pseudonyms to a watch list
+    /// @dev Entries are allowed to this contract only, not to the uploading regulator, so no
+    /// one can decrypt a list through the ACL. Changing a list invalidates unfinished scans.
+    function addWatchListEntries(
+        WatchListKind kind,
+        externalEuint32[] calldata entries,
+        bytes calldata inputProof
+    ) public onlyRegulator {
+        euint32[] storage list = watchLists[kind];
+        require(entries.length > 0, "Empty batch");
+        require(list.length + entries.length <= MAX_WATCH_LIST_SIZE, "Watch list full");
+        
+        for (uint i = 0; i < entries.length; i++) {
+            list.push(FHE.allowThis(FHE.fromExternal(entries[i], inputProof)));
+        }
+        emit WatchListUpdated(kind, list.length, ++watchListVersion, msg.sender);
+    }
+    
+    /// @notice Remove every entry of a watch list
+    function clearWatchList(WatchListKind kind) public onlyRegulator {
+        delete watchLists[kind];
+        emit WatchListUpdated(kind, 0, ++watchListVersion, msg.sender);
+    }
+    
+    /// @notice Number of entries in a watch list; the entries themselves stay encrypted
+    function getWatchListSize(WatchListKind kind) public view returns (uint256) {
+        return watchLists[kind].length;
+    }
+    
+    /// @notice Start matching a range of transactions against the watch lists for a running analysis
+    /// @dev Restarts the scan if the analysis was already scanned
+    function startWatchListScan(uint256 analysisId, uint256 firstId, uint256 lastId) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(
+            watchLists[WatchListKind.Securities].length + watchLists[WatchListKind.Traders].length > 0,
+            "Watch lists empty"
+        );
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        
+        watchListScans[analysisId] = WatchListScan({
+            firstId: firstId,
+            nextId: firstId,
+            lastId: lastId,
+            listVersion: watchListVersion,
+            active: true
+        });
+        watchListHits[analysisId] = FHE.allowThis(FHE.asEuint32(0));
+        emit WatchListScanStarted(analysisId, firstId, lastId);
+    }
+    
+    /// @notice Check up to `maxTransactions` more transactions of a watch list scan
+    /// @dev Each transaction gets an encrypted flag, kept for use inside this contract only.
+    /// The finished hit count is the only result granted, to the regulator completing the scan.
+    function continueWatchListScan(uint256 analysisId, uint256 maxTransactions) public onlyRegulator returns (bool done) {
+        WatchListScan storage scan = watchListScans[analysisId];
+        require(scan.active, "No watch list scan in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(scan.listVersion == watchListVersion, "Watch lists changed, restart the scan");
+        require(maxTransactions > 0, "Invalid chunk size");
+        
+        uint256 end = scan.nextId + maxTransactions - 1;
+        if (end > scan.lastId) end = scan.lastId;
+        
+        euint32[] memory securities = watchLists[WatchListKind.Securities];
+        euint32[] memory traders = watchLists[WatchListKind.Traders];
+        euint32 hits = watchListHits[analysisId];
+        for (uint256 id = scan.nextId; id <= end; id++) {
+            ebool hit = EncryptedPatterns.touchesWatchList(_patternTrade(id), securities, traders);
+            watchListFlags[analysisId][id] = FHE.allowThis(hit);
+            hits = FHE.add(hits, FHE.asEuint32(hit));
+        }
+        
+        watchListHits[analysisId] = FHE.allowThis(hits);
+        scan.nextId = end + 1;
+        emit WatchListScanProgress(analysisId, end, scan.lastId);
+        
+        done = end == scan.lastId;
+        if (done) {
+            scan.active = false;
+            FHE.allow(hits, msg.sender);
+            emit WatchListScanned(analysisId);
+        }
+    }
+    
+    /// @notice Get the encrypted number of transactions of an analysis that touch a watch list
+    function getWatchListHits(uint256 analysisId) public view returns (euint32) {
+        return watchListHits[analysisId];
+    }
+    
+    /// @notice Report encrypted large client orders covered by a single input proof
+    /// @dev Like transactions, the fields are allowed to this contract and the reporting broker
+    function submitLargeOrders(
+        ExternalLargeOrder[] calldata orders,
+        bytes calldata inputProof
+    ) public onlyBroker returns (uint256 firstId) {
+        require(orders.length > 0, "Empty batch");
+        
+        firstId = largeOrderCount + 1;
+        for (uint i = 0; i < orders.length; i++) {
+            uint256 orderId = ++largeOrderCount;
+            largeOrders[orderId] = LargeOrder({
+                id: orderId,
+                broker: msg.sender,
+                encryptedClient: _importCiphertext(orders[i].client, inputProof),
+                encryptedSecurity: _importCiphertext(orders[i].security, inputProof),
+                encryptedTimestamp: _importCiphertext(orders[i].timestamp, inputProof),
+                encryptedSide: _importCiphertext(orders[i].side, inputProof),
+                submissionTime: block.timestamp
+            });
+        }
+        emit LargeOrdersSubmitted(firstId, largeOrderCount, msg.sender);
+    }
+    
+    /// @notice Start counting trades that front-run a range of large orders, over a range of
+    /// transactions, for a running analysis
+    /// @dev Hits are counted per node of the node index table, which cannot change under the scan:
+    /// a new table bumps the matrix version the session is bound to. Restarts the scan if the analysis
+    /// was already scanned; until the new scan finishes, the risk score leaves front-running out.
+    function startFrontRunScan(
+        uint256 analysisId,
+        uint32 window,
+        uint256 firstOrder,
+        uint256 lastOrder,
+        uint256 firstId,
+        uint256 lastId
+    ) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        uint256 n = nodeTraderIds.length;
+        require(n > 0, "Node index table not set");
+        require(window > 0, "Invalid front-running window");
+        require(firstOrder > 0 && firstOrder <= lastOrder && lastOrder <= largeOrderCount, "Invalid order range");
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        
+        frontRunScans[analysisId] = FrontRunScan({
+            window: window,
+            firstOrder: firstOrder,
+            lastOrder: lastOrder,
+            firstId: firstId,
+            lastId: lastId,
+            nextId: firstId,
+            nextOrder: firstOrder,
+            active: true
+        });
+        euint32 zero = FHE.allowThis(FHE.asEuint32(0));
+        frontRunPending[analysisId] = zero;
+        frontRunHits[analysisId] = zero;
+        frontRunTotals[analysisId] = euint32.wrap(0);
+        delete frontRunCounts[analysisId];
+        for (uint256 i = 0; i < n; i++) {
+            frontRunCounts[analysisId].push(zero);
+        }
+        emit FrontRunScanStarted(analysisId, window, firstOrder, lastOrder, firstId, lastId);
+    }
+    
+    /// @notice Check up to `maxPairs` more transaction/order pairs of a front-running scan
+    /// @dev A transaction is checked against every order in turn, then its hits are added to the
+    /// count of the node whose pseudonym equals its encrypted trader (no node if none does) and
+    /// to the total. The finished counts are granted to the regulator completing the scan, and
+    /// the total becomes the analysis's front-running input to `computeRiskScore`.
+    function continueFrontRunScan(uint256 analysisId, uint256 maxPairs) public onlyRegulator returns (bool done) {
+        FrontRunScan storage scan = frontRunScans[analysisId];
+        require(scan.active, "No front-running scan in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        _requireCurrentMatrix(analysisId);
+        require(maxPairs > 0, "Invalid chunk size");
+        
+        uint256 id = scan.nextId;
+        uint256 orderId = scan.nextOrder;
+        euint32 pending = frontRunPending[analysisId];
+        euint32 total = frontRunHits[analysisId];
+        for (uint256 k = 0; k < maxPairs && id <= scan.lastId; k++) {
+            ebool hit = EncryptedPatterns.frontRuns(
+                _patternTrade(id),
+                encryptedTransactions[id].encryptedSide,
+                _patternOrder(orderId),
+                scan.window
+            );
+            pending = FHE.add(pending, FHE.asEuint32(hit));
+            
+            if (orderId < scan.lastOrder) {
+                orderId++;
+            } else {
+                _attributeFrontRuns(analysisId, id, pending);
+                total = FHE.add(total, pending);
+                pending = FHE.asEuint32(0);
+                id++;
+                orderId = scan.firstOrder;
+            }
+        }
+        
+        frontRunPending[analysisId] = FHE.allowThis(pending);
+        frontRunHits[analysisId] = FHE.allowThis(total);
+        scan.nextId = id;
+        scan.nextOrder = orderId;
+        emit FrontRunScanProgress(analysisId, id, orderId);
+        
+        done = id > scan.lastId;
+        if (done) {
+            scan.active = false;
+            euint32[] storage counts = frontRunCounts[analysisId];
+            for (uint256 i = 0; i < counts.length; i++) {
+                FHE.allow(counts[i], msg.sender);
+            }
+            FHE.allow(total, msg.sender);
+            frontRunTotals[analysisId] = total;
+            emit FrontRunningDetected(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's front-running scan
+    function getFrontRunScan(uint256 analysisId) public view returns (FrontRunScan memory) {
+        return frontRunScans[analysisId];
+    }
+    
+    /// @notice Get the encrypted front-running counts of an analysis, per node of the node index
+    /// table and in total
+    function getFrontRunCounts(uint256 analysisId) public view returns (euint32[] memory counts, euint32 total) {
+        return (frontRunCounts[analysisId], frontRunHits[analysisId]);
+    }
+    
+    /// @notice Set the encrypted volume a security is expected to trade per time bucket
+    /// @dev Baselines are allowed to this contract only, like watch list entries. Running scans
+    /// keep comparing against the baselines they started with.
+    function setVolumeBaselines(
+        VolumeBaselineInput[] calldata baselines,
+        bytes calldata inputProof
+    ) public onlyRegulator {
+        require(baselines.length > 0, "Empty batch");
+        
+        for (uint i = 0; i < baselines.length; i++) {
+            volumeBaselines[baselines[i].securityId] = FHE.allowThis(
+                FHE.fromExternal(baselines[i].baseline, inputProof)
+            );
+        }
+        emit VolumeBaselinesSet(baselines.length, msg.sender);
+    }
+    
+    /// @notice Start aggregating the volume of a range of transactions per security and time
+    /// bucket, for a running analysis
+    /// @dev Bucket `b` covers [startTime + b * bucketSeconds, startTime + (b + 1) * bucketSeconds).
+    /// Every security needs a baseline. Restarts the scan if the analysis was already scanned.
+    function startVolumeSpikeScan(
+        uint256 analysisId,
+        uint32[] calldata securities,
+        uint64 startTime,
+        uint32 bucketSeconds,
+        uint32 bucketCount,
+        uint256 firstId,
+        uint256 lastId
+    ) public onlyRegulator {
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(securities.length > 0 && bucketSeconds > 0 && bucketCount > 0, "Invalid bucket layout");
+        require(securities.length * bucketCount <= MAX_VOLUME_CELLS, "Too many volume buckets");
+        require(uint256(startTime) + uint256(bucketSeconds) * bucketCount <= type(uint64).max, "Invalid bucket layout");
+        require(firstId > 0 && firstId <= lastId && lastId <= transactionCount, "Invalid transaction range");
+        
+        volumeSpikeScans[analysisId] = VolumeSpikeScan({
+            startTime: startTime,
+            bucketSeconds: bucketSeconds,
+            bucketCount: bucketCount,
+            firstId: firstId,
+            lastId: lastId,
+            nextId: firstId,
+            nextCell: 0,
+            active: true
+        });
+        volumeSpikeSecurities[analysisId] = securities;
+        delete volumeSpikeBaselines[analysisId];
+        for (uint256 s = 0; s < securities.length; s++) {
+            euint64 baseline = volumeBaselines[securities[s]];
+            require(FHE.isInitialized(baseline), "Missing volume baseline");
+            volumeSpikeBaselines[analysisId].push(baseline);
+        }
+        
+        euint64 noVolume = FHE.allowThis(FHE.asEuint64(0));
+        euint32 noTrades = FHE.allowThis(FHE.asEuint32(0));
+        ebool noSpike = FHE.allowThis(FHE.asEbool(false));
+        delete bucketVolumes[analysisId];
+        delete bucketTradeCounts[analysisId];
+        delete volumeSpikeFlags[analysisId];
+        for (uint256 i = 0; i < securities.length * bucketCount; i++) {
+            bucketVolumes[analysisId].push(noVolume);
+            bucketTradeCounts[analysisId].push(noTrades);
+            volumeSpikeFlags[analysisId].push(noSpike);
+        }
+        emit VolumeSpikeScanStarted(analysisId, startTime, bucketSeconds, bucketCount, firstId, lastId);
+    }
+    
+    /// @notice Check up to `maxSteps` more cell/transaction pairs of a volume spike scan
+    /// @dev Cells are filled one at a time: every transaction of the range is checked against a
+    /// cell before its volume is compared with the security's baseline, which sets its spike
+    /// flag (volume strictly above the baseline). The finished flags and per-cell trade counts
+    /// are granted to the regulator completing the scan; volumes are never granted.
+    function continueVolumeSpikeScan(uint256 analysisId, uint256 maxSteps) public onlyRegulator returns (bool done) {
+        VolumeSpikeScan storage scan = volumeSpikeScans[analysisId];
+        require(scan.active, "No volume spike scan in progress");
+        require(analysisSessions[analysisId].state == SessionState.Running, "Invalid session state");
+        require(maxSteps > 0, "Invalid chunk size");
+        
+        euint64[] storage volumes = bucketVolumes[analysisId];
+        euint32[] storage counts = bucketTradeCounts[analysisId];
+        uint256 cells = volumes.length;
+        uint256 id = scan.nextId;
+        uint256 cell = scan.nextCell;
+        euint64 volume = volumes[cell];
+        euint32 count = counts[cell];
+        for (uint256 k = 0; k < maxSteps && cell < cells; k++) {
+            (uint64 start, uint64 end) = _volumeBucket(scan, cell % scan.bucketCount);
+            uint32 security = volumeSpikeSecurities[analysisId][cell / scan.bucketCount];
+            ebool hit = EncryptedPatterns.isInWindow(_patternTrade(id), security, start, end);
+            volume = FHE.add(volume, FHE.select(hit, encryptedTransactions[id].encryptedAmount, FHE.asEuint64(0)));
+            count = FHE.add(count, FHE.asEuint32(hit));
+            
+            if (id < scan.lastId) {
+                id++;
+            } else {
+                euint64 baseline = volumeSpikeBaselines[analysisId][cell / scan.bucketCount];
+                volumes[cell] = FHE.allowThis(volume);
+                counts[cell] = FHE.allowThis(count);
+                volumeSpikeFlags[analysisId][cell] = FHE.allowThis(FHE.gt(volume, baseline));
+                id = scan.firstId;
+                cell++;
+                if (cell < cells) {
+                    volume = volumes[cell];
+                    count = counts[cell];
+                }
+            }
+        }
+        
+        if (cell < cells) {
+            volumes[cell] = FHE.allowThis(volume);
+            counts[cell] = FHE.allowThis(count);
+        }
+        scan.nextId = id;
+        scan.nextCell = cell;
+        emit VolumeSpikeScanProgress(analysisId, id, cell);
+        
+        done = cell == cells;
+        if (done) {
+            scan.active = false;
+            ebool[] storage flags = volumeSpikeFlags[analysisId];
+            for (uint256 i = 0; i < cells; i++) {
+                FHE.allow(flags[i], msg.sender);
+                FHE.allow(counts[i], msg.sender);
+            }
+            emit VolumeSpikesDetected(analysisId);
+        }
+    }
+    
+    /// @notice Get the progress of an analysis's volume spike scan
+    function getVolumeSpikeScan(uint256 analysisId) public view returns (VolumeSpikeScan memory) {
+        return volumeSpikeScans[analysisId];
+    }
+    
+    /// @notice Get the securities of an analysis's volume spike scan with their encrypted spike
+    /// flags and trade counts, per cell in security-major order
+    function getVolumeSpikes(
+        uint256 analysisId
+    ) public view returns (uint32[] memory securities, ebool[] memory flags, euint32[] memory tradeCounts) {
+        return (volumeSpikeSecurities[analysisId], volumeSpikeFlags[analysisId], bucketTradeCounts[analysisId]);
+    }
+    
+    function _volumeBucket(
+        VolumeSpikeScan storage scan,
+        uint256 bucket
+    ) private view returns (uint64 start, uint64 end) {
+        start = scan.startTime + uint64(bucket) * scan.bucketSeconds;
+        end = start + scan.bucketSeconds;
+    }
+    
+    function _patternOrder(uint256 orderId) private view returns (EncryptedPatterns.Order memory) {
+        LargeOrder storage order = largeOrders[orderId];
+        return EncryptedPatterns.Order({
+            client: order.encryptedClient,
+            security: order.encryptedSecurity,
+            timestamp: order.encryptedTimestamp,
+            side: order.encryptedSide
+        });
+    }
+    
+    function _attributeFrontRuns(uint256 analysisId, uint256 id, euint32 hits) private {
+        euint32 trader = encryptedTransactions[id].encryptedTraderId;
+        euint32[] storage counts = frontRunCounts[analysisId];
+        euint32 none = FHE.asEuint32(0);
+        for (uint256 i = 0; i < counts.length; i++) {
+            ebool own = FHE.eq(trader, nodeTraderIds[i]);
+            counts[i] = FHE.allowThis(FHE.add(counts[i], FHE.select(own, hits, none)));
+        }
+    }
+}
@@ -0,0 +1,270 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { IAnalysisModule, InsiderRingStorage } from "./InsiderRingStorage.sol";
+
+/// @notice Two-stage reveal of InsiderRingAnalysis results through the decryption oracle
+/// @dev Registered with InsiderRingAnalysis at deployment; its functions, including the oracle
+/// callbacks, are called on the InsiderRingAnalysis address and run against that contract's storage.
+/// Stage one decrypts only `riskScore >= revealThreshold`; ring members and the score are
+/// decrypted in stage two, which is only reachable when that flag came back true and is requested
+/// by the approval that brings a session to the regulator quorum. Every oracle request is tracked
+/// in `decryptionRequests`; a callback is only accepted for a pending request of its kind.
+contract ResultDisclosure is InsiderRingStorage, IAnalysisModule {
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](11);
+        selectors[0] = this.setRevealThreshold.selector;
+        selectors[1] = this.setRevealQuorum.selector;
+        selectors[2] = this.setDecryptionTimeout.selector;
+        selectors[3] = this.requestResultDecryption.selector;
+        selectors[4] = this.decryptThresholdCheck.selector;
+        selectors[5] = this.approveReveal.selector;
+        selectors[6] = this.hasApprovedReveal.selector;
+        selectors[7] = this.isRevealApprovalOpen.selector;
+        selectors[8] = this.decryptAnalysisResult.selector;
+        selectors[9] = this.retryDecryption.selector;
+        selectors[10] = this.cancelDecryption.selector;
+    }
+    
+    /// @notice Update the risk score an analysis must reach before its ring members can be revealed
+    function setRevealThreshold(uint32 threshold) public onlyAdmin {
+        _setRevealThreshold(threshold);
+    }
+    
+    /// @notice Update how many regulators must approve a member reveal, and within how many seconds
+    /// @dev The quorum can not exceed the number of regulators
+    function setRevealQuorum(uint256 quorum, uint256 approvalWindow) public onlyAdmin {
+        _setRevealQuorum(quorum, approvalWindow);
+    }
+    
+    /// @notice Update how many seconds a decryption request may stay pending before it can be
+    /// retried or cancelled by any regulator
+    function setDecryptionTimeout(uint256 timeout) public onlyAdmin {
+        _setDecryptionTimeout(timeout);
+    }
+    
+    /// @notice Stage one: decrypt whether a completed analysis reaches the reveal threshold
+    /// @dev The flag is computed once per analysis, against the threshold in force at its first
+    /// request. A check that is cancelled and requested again decrypts that same flag, even if the
+    /// threshold has changed meanwhile: every oracle answer, discarded ones included, publishes
+    /// its cleartext, so checking one score against several thresholds would narrow it down.
+    function requestResultDecryption(uint256 analysisId) public onlyRegulator {
+        AnalysisResult storage result = analysisResults[analysisId];
+        require(result.isComplete, "Analysis not complete");
+        _transition(analysisId, SessionState.Completed, SessionState.ThresholdCheckRequested);
+        
+        if (!FHE.isInitialized(thresholdChecks[analysisId])) {
+            checkedThresholds[analysisId] = revealThreshold;
+            thresholdChecks[analysisId] = FHE.allowThis(FHE.ge(result.encryptedRiskScore, revealThreshold));
+        }
+        uint32 threshold = checkedThresholds[analysisId];
+        
+        _requestDecryption(analysisId, DecryptionKind.ThresholdCheck);
+        emit ThresholdCheckRequested(analysisId, threshold);
+    }
+    
+    /// @notice Callback for a decrypted threshold check
+    function decryptThresholdCheck(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        (uint256 analysisId, bool accepted) = _fulfillDecryption(
+            requestId,
+            DecryptionKind.ThresholdCheck,
+            1,
+            cleartexts,
+            proof
+        );
+        if (!accepted) return;
+        uint256 flag = abi.decode(cleartexts, (uint256));
+        require(flag <= 1, "Malformed cleartexts");
+        bool aboveThreshold = flag == 1;
+        
+        _transition(
+            analysisId,
+            SessionState.ThresholdCheckRequested,
+            aboveThreshold ? SessionState.AboveThreshold : SessionState.BelowThreshold
+        );
+        emit ThresholdCheckRevealed(analysisId, aboveThreshold);
+    }
+    
+    /// @notice Approve decrypting the ring members of an analysis above the threshold
+    /// @param justificationHash Hash of the written justification kept on file for the approval
+    /// @dev Approvals count towards the open round; a lapsed round is discarded and this approval
+    /// opens a new one. The approval that reaches the quorum requests the decryption.
+    function approveReveal(uint256 analysisId, bytes32 justificationHash) public onlyRegulator {
+        require(justificationHash != bytes32(0), "Justification required");
+        require(analysisSessions[analysisId].state == SessionState.AboveThreshold, "Invalid session state");
+        
+        RevealApprovals storage round = revealApprovals[analysisId];
+        if (!isRevealApprovalOpen(analysisId)) {
+            if (round.approvals > 0) {
+                emit RevealApprovalsExpired(analysisId, round.round, round.approvals);
+            }
+            round.round++;
+            round.openedAt = block.timestamp;
+            round.approvals = 0;
+        }
+        require(approvalRounds[analysisId][msg.sender] != round.round, "Already approved");
+        approvalRounds[analysisId][msg.sender] = round.round;
+        round.approvals++;
+        
+        uint256 quorum = revealQuorum;
+        emit RevealApproved(analysisId, msg.sender, justificationHash, round.approvals, quorum);
+        
+        if (round.approvals >= quorum) {
+            emit RevealQuorumReached(analysisId, round.round);
+            _requestMemberDecryption(analysisId);
+        }
+    }
+    
+    /// @notice Whether a regulator has approved the open approval round of an analysis
+    function hasApprovedReveal(uint256 analysisId, address regulator) public view returns (bool) {
+        return isRevealApprovalOpen(analysisId) && approvalRounds[analysisId][regulator] == revealApprovals[analysisId].round;
+    }
+    
+    /// @notice Whether an analysis has an approval round that has not lapsed
+    function isRevealApprovalOpen(uint256 analysisId) public view returns (bool) {
+        RevealApprovals storage round = revealApprovals[analysisId];
+        return round.approvals > 0 && block.timestamp <= round.openedAt + revealApprovalWindow;
+    }
+    
+    /// @dev Stage two: decrypt the ring members and risk score of an analysis above the threshold
+    function _requestMemberDecryption(uint256 analysisId) private {
+        require(!decryptedResults[analysisId].isRevealed, "Already revealed");
+        _transition(analysisId, SessionState.AboveThreshold, SessionState.RevealRequested);
+        _requestDecryption(analysisId, DecryptionKind.RingMembers);
+    }
+    
+    /// @notice Callback for decrypted analysis results
+    function decryptAnalysisResult(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint256 count = analysisResults[decryptionRequests[requestId].analysisId].encryptedRingMembers.length + 1;
+        (uint256 analysisId, bool accepted) = _fulfillDecryption(
+            requestId,
+            DecryptionKind.RingMembers,
+            count,
+            cleartexts,
+            proof
+        );
+        if (!accepted) return;
+        
+        DecryptedResult storage dResult = decryptedResults[analysisId];
+        require(!dResult.isRevealed, "Already revealed");
+        
+        // Cleartexts are the decrypted values as consecutive 32-byte words; prefix them with an
+        // offset and a length to decode them as a dynamic array
+        uint32[] memory results = abi.decode(abi.encodePacked(uint256(32), count, cleartexts), (uint32[]));
+        
+        // First n-1 elements are ring members, last is risk score
+        uint32[] memory members = new uint32[](results.length - 1);
+        for (uint i = 0; i < results.length - 1; i++) {
+            members[i] = results[i];
+        }
+        
+        dResult.ringMembers = members;
+        dResult.riskScore = results[results.length - 1];
+        dResult.isRevealed = true;
+        _transition(analysisId, SessionState.RevealRequested, SessionState.Revealed);
+        
+        emit ResultRevealed(analysisId);
+    }
+    
+    /// @notice Re-request a decryption the oracle has not answered by its deadline
+    /// @dev The original request is superseded, so a late answer to it is rejected
+    function retryDecryption(uint256 requestId) public onlyRegulator returns (uint256 retryRequestId) {
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.status == DecryptionStatus.Pending, "Request not pending");
+        require(block.timestamp > request.deadline, "Request not timed out");
+        
+        request.status = DecryptionStatus.Superseded;
+        retryRequestId = _requestDecryption(request.analysisId, request.kind);
+        emit DecryptionRetried(requestId, retryRequestId, request.analysisId);
+    }
+    
+    /// @notice Withdraw a pending decryption, returning the analysis to the stage it was requested from
+    /// @dev The requester may cancel at any time, other regulators once the deadline has passed.
+    /// A cancelled threshold check keeps its threshold when requested again; a cancelled member
+    /// reveal needs a fresh round of approvals.
+    function cancelDecryption(uint256 requestId) public onlyRegulator {
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.status == DecryptionStatus.Pending, "Request not pending");
+        require(msg.sender == request.requester || block.timestamp > request.deadline, "Request not timed out");
+        
+        request.status = DecryptionStatus.Cancelled;
+        uint256 analysisId = request.analysisId;
+        if (request.kind == DecryptionKind.ThresholdCheck) {
+            _transition(analysisId, SessionState.ThresholdCheckRequested, SessionState.Completed);
+        } else {
+            _transition(analysisId, SessionState.RevealRequested, SessionState.AboveThreshold);
+            revealApprovals[analysisId].approvals = 0;
+        }
+        emit DecryptionCancelled(requestId, analysisId, msg.sender);
+    }
+    
+    /// @dev Send the ciphertexts of `kind` for an analysis to the oracle and register the request
+    function _requestDecryption(uint256 analysisId, DecryptionKind kind) private returns (uint256 requestId) {
+        bytes32[] memory ciphertexts;
+        bytes4 callback;
+        if (kind == DecryptionKind.ThresholdCheck) {
+            ciphertexts = new bytes32[](1);
+            ciphertexts[0] = FHE.toBytes32(thresholdChecks[analysisId]);
+            callback = this.decryptThresholdCheck.selector;
+        } else {
+            // Ring members first, risk score last
+            AnalysisResult storage result = analysisResults[analysisId];
+            uint256 members = result.encryptedRingMembers.length;
+            ciphertexts = new bytes32[](members + 1);
+            for (uint i = 0; i < members; i++) {
+                ciphertexts[i] = FHE.toBytes32(result.encryptedRingMembers[i]);
+            }
+            ciphertexts[members] = FHE.toBytes32(result.encryptedRiskScore);
+            callback = this.decryptAnalysisResult.selector;
+        }
+        
+        requestId = FHE.requestDecryption(ciphertexts, callback);
+        uint256 deadline = block.timestamp + decryptionTimeout;
+        decryptionRequests[requestId] = DecryptionRequest({
+            analysisId: analysisId,
+            kind: kind,
+            status: DecryptionStatus.Pending,
+            requester: msg.sender,
+            requestedAt: block.timestamp,
+            deadline: deadline
+        });
+        latestDecryptionRequest[analysisId] = requestId;
+        emit DecryptionRequested(requestId, analysisId, kind, msg.sender, deadline);
+    }
+    
+    /// @dev Accept an oracle callback only for a known request of the expected kind whose
+    /// cleartexts hold exactly `words` values, signed by the KMS for that request. Late answers to
+    /// cancelled or superseded requests are discarded rather than reverted, so the oracle does not
+    /// keep retrying them.
+    function _fulfillDecryption(
+        uint256 requestId,
+        DecryptionKind kind,
+        uint256 words,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) private returns (uint256 analysisId, bool accepted) {
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        require(request.status != DecryptionStatus.None && request.kind == kind, "Unknown request");
+        require(request.status != DecryptionStatus.Fulfilled, "Request already fulfilled");
+        require(cleartexts.length == words * 32, "Malformed cleartexts");
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        analysisId = request.analysisId;
+        if (request.status != DecryptionStatus.Pending) {
+            emit DecryptionDiscarded(requestId, analysisId, request.status);
+            return (analysisId, false);
+        }
+        request.status = DecryptionStatus.Fulfilled;
+        accepted = true;
+        emit DecryptionFulfilled(requestId, analysisId);
+    }
+}
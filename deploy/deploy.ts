@@ -4,6 +4,7 @@ import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { ANALYSIS_MODULES, LINKED_LIBRARIES } from "../tasks/utils";
 
 
 const WORD_LIBRARY = [
@@ -345,6 +346,39 @@ async function main() {
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // Deploy the libraries InsiderRingAnalysis and its modules link against
+  const libraries: Record<string, string> = {};
+  for (const name of new Set(Object.values(LINKED_LIBRARIES).flat())) {
+    const LibraryFactory = await hardhatEthers.getContractFactory(name, wallet);
+    const library = await LibraryFactory.deploy();
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+    console.log(`${name} library deployed at:`, libraries[name]);
+  }
+  const linkedLibraries = (name: string) =>
+    Object.fromEntries((LINKED_LIBRARIES[name] ?? []).map((library) => [library, libraries[library]]));
+
+  // Deploy the modules whose functions InsiderRingAnalysis serves through its fallback
+  const modules: string[] = [];
+  for (const name of ANALYSIS_MODULES) {
+    const ModuleFactory = await hardhatEthers.getContractFactory(name, { signer: wallet, libraries: linkedLibraries(name) });
+    const module = await ModuleFactory.deploy();
+    await module.waitForDeployment();
+    modules.push(await module.getAddress());
+    console.log(`${name} module deployed at:`, modules[modules.length - 1]);
+  }
+
+  // Deploy InsiderRingAnalysis; the deployer becomes its first admin and regulator
+  const AnalysisFactory = await hardhatEthers.getContractFactory("InsiderRingAnalysis", {
+    signer: wallet,
+    libraries: linkedLibraries("InsiderRingAnalysis"),
+  });
+  const analysis = await AnalysisFactory.deploy(modules);
+  await analysis.waitForDeployment();
+
+  const analysisAddress = await analysis.getAddress();
+  console.log("InsiderRingAnalysis contract deployed at:", analysisAddress);
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
@@ -353,6 +387,7 @@ async function main() {
     const config = {
       network: rpc,
       contractAddress: deployedAddress,
+      analysisContractAddress: analysisAddress,
       deployer: wallet.address,
     };
     fs.writeFileSync(
@@ -1,9 +1,23 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  AnalysisSessionSummary,
+  approveReveal,
+  getAnalysisSessions,
+  getContractReadOnly,
+  getContractWithSigner,
+  getMatrixInitStatus,
+  getPendingReveals,
+  getRevealThreshold,
+  hasAnalysisRole,
+  MatrixInitStatus,
+  PendingReveal,
+  REVEAL_STAGES
+} from "./contract";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import HopDistanceWidget from "./components/HopDistanceWidget";
 import "./App.css";
 
 interface TradingRing {
@@ -25,6 +39,12 @@ const App: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
+  const [regulatorAccount, setRegulatorAccount] = useState(false);
+  const [matrixStatus, setMatrixStatus] = useState<MatrixInitStatus | null>(null);
+  const [sessions, setSessions] = useState<AnalysisSessionSummary[]>([]);
+  const [revealThreshold, setRevealThreshold] = useState<number | null>(null);
+  const [pendingReveals, setPendingReveals] = useState<PendingReveal[]>([]);
+  const [justifications, setJustifications] = useState<Record<number, string>>({});
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
@@ -56,6 +76,56 @@ const App: React.FC = () => {
     loadRings().finally(() => setLoading(false));
   }, []);
 
+  // Refresh the connected account's regulator role
+  useEffect(() => {
+    let cancelled = false;
+    hasAnalysisRole("regulator", account)
+      .then(result => { if (!cancelled) setRegulatorAccount(result); })
+      .catch(e => {
+        console.error("Error checking regulator role:", e);
+        if (!cancelled) setRegulatorAccount(false);
+      });
+    return () => { cancelled = true; };
+  }, [account]);
+
+  // Poll adjacency matrix initialization progress
+  useEffect(() => {
+    const refresh = () => getMatrixInitStatus()
+      .then(setMatrixStatus)
+      .catch(e => console.error("Error loading matrix status:", e));
+    refresh();
+    const timer = setInterval(refresh, 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Poll analysis sessions and how far their results have been revealed
+  useEffect(() => {
+    const refresh = () => Promise.all([getAnalysisSessions(), getRevealThreshold()])
+      .then(([list, threshold]) => {
+        setSessions(list);
+        setRevealThreshold(threshold);
+      })
+      .catch(e => console.error("Error loading analysis sessions:", e));
+    refresh();
+    const timer = setInterval(refresh, 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Poll member reveals awaiting regulator approval
+  const loadPendingReveals = () => getPendingReveals(account)
+    .then(setPendingReveals)
+    .catch(e => console.error("Error loading pending reveals:", e));
+
+  useEffect(() => {
+    if (!regulatorAccount) {
+      setPendingReveals([]);
+      return;
+    }
+    loadPendingReveals();
+    const timer = setInterval(loadPendingReveals, 15000);
+    return () => clearInterval(timer);
+  }, [account, regulatorAccount]);
+
   // Wallet connection handlers
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
@@ -360,9 +430,51 @@ const App: React.FC = () => {
     }
   };
 
-  // Check if user is regulator (simplified for demo)
+  // Approve decrypting the ring members of a session above the reveal threshold
+  const approvePendingReveal = async (sessionId: number) => {
+    const justification = (justifications[sessionId] || "").trim();
+    if (!justification) {
+      alert("Please enter a justification");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Submitting reveal approval..."
+    });
+
+    try {
+      await approveReveal(sessionId, justification);
+      setJustifications(prev => ({ ...prev, [sessionId]: "" }));
+
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Reveal approval recorded"
+      });
+
+      await loadPendingReveals();
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Approval failed: " + (e.message || "Unknown error")
+      });
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Check if user holds the regulator role on InsiderRingAnalysis
   const isRegulator = () => {
-    return !!account; // In real app, would check specific addresses
+    return !!account && regulatorAccount;
   };
 
   // Loading screen
@@ -421,6 +533,22 @@ const App: React.FC = () => {
             <h3>Total Analyzed</h3>
             <div className="stat-value">{rings.length}</div>
           </div>
+          {matrixStatus && (
+            <div className="stat-card">
+              <h3>{matrixStatus.active ? "Initializing Matrix" : "Matrix Nodes"}</h3>
+              <div className="stat-value">
+                {matrixStatus.active
+                  ? `${Math.floor((matrixStatus.cursor / matrixStatus.totalCells) * 100)}%`
+                  : matrixStatus.size}
+              </div>
+            </div>
+          )}
+          {revealThreshold !== null && (
+            <div className="stat-card">
+              <h3>Reveal Threshold</h3>
+              <div className="stat-value">{revealThreshold}</div>
+            </div>
+          )}
         </section>
 
         {/* Search and filter controls */}
@@ -526,6 +654,85 @@ const App: React.FC = () => {
             ))
           )}
         </section>
+
+        {/* Analysis sessions and their reveal stage */}
+        <section className="rings-list sessions-list">
+          <div className="list-header">
+            <div>Session</div>
+            <div>Creator</div>
+            <div>Updated</div>
+            <div>Reveal Stage</div>
+          </div>
+
+          {sessions.length === 0 ? (
+            <div className="empty-state">
+              <p>No analysis sessions yet</p>
+            </div>
+          ) : (
+            sessions.map(session => (
+              <div className="ring-item" key={session.id}>
+                <div className="ring-id">#{session.id}</div>
+                <div className="ring-broker">{session.creator.substring(0, 10)}...</div>
+                <div className="ring-date">
+                  {new Date(session.updatedAt * 1000).toLocaleDateString()}
+                </div>
+                <div className={`session-stage ${session.state}`}>
+                  {REVEAL_STAGES[session.state]}
+                </div>
+              </div>
+            ))
+          )}
+        </section>
+
+        {/* Member reveals awaiting regulator approval */}
+        {isRegulator() && (
+          <section className="rings-list sessions-list reveal-approvals">
+            <div className="list-header">
+              <div>Session</div>
+              <div>Justification</div>
+              <div>Approvals</div>
+              <div>Round Expires</div>
+              <div>Actions</div>
+            </div>
+
+            {pendingReveals.length === 0 ? (
+              <div className="empty-state">
+                <p>No reveals awaiting approval</p>
+              </div>
+            ) : (
+              pendingReveals.map(reveal => (
+                <div className="ring-item" key={reveal.sessionId}>
+                  <div className="ring-id">#{reveal.sessionId}</div>
+                  <div>
+                    <input
+                      type="text"
+                      placeholder="Case reference or legal basis..."
+                      value={justifications[reveal.sessionId] || ""}
+                      disabled={reveal.approvedByAccount}
+                      onChange={(e) => setJustifications({ ...justifications, [reveal.sessionId]: e.target.value })}
+                    />
+                  </div>
+                  <div className="ring-participants">{reveal.approvals} / {reveal.quorum}</div>
+                  <div className="ring-date">
+                    {reveal.expiresAt ? new Date(reveal.expiresAt * 1000).toLocaleString() : "Not opened"}
+                  </div>
+                  <div className="ring-actions">
+                    <button
+                      className="confirm-button"
+                      onClick={() => approvePendingReveal(reveal.sessionId)}
+                      disabled={reveal.approvedByAccount}
+                    >
+                      {reveal.approvedByAccount ? "Approved" : "Approve"}
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </section>
+        )}
+
+        {/* Encrypted hop distance between two traders */}
+        {isRegulator() && <HopDistanceWidget />}
       </main>
 
       {/* Footer */}
@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { computeHopDistance, HopDistance } from "../contract";
+
+// Regulator tool: encrypted shortest-path hop distance between two trader pseudonyms
+const HopDistanceWidget: React.FC = () => {
+  const [sessionId, setSessionId] = useState("");
+  const [fromTrader, setFromTrader] = useState("");
+  const [toTrader, setToTrader] = useState("");
+  const [maxHops, setMaxHops] = useState("4");
+  const [computing, setComputing] = useState(false);
+  const [result, setResult] = useState<HopDistance | null>(null);
+  const [error, setError] = useState("");
+
+  const compute = async () => {
+    const session = parseInt(sessionId);
+    const from = parseInt(fromTrader);
+    const to = parseInt(toTrader);
+    const hops = parseInt(maxHops);
+    if (isNaN(session) || isNaN(from) || isNaN(to) || isNaN(hops) || hops <= 0) {
+      setError("Enter a running session, two trader pseudonyms and a positive hop limit");
+      return;
+    }
+
+    setComputing(true);
+    setError("");
+    setResult(null);
+    try {
+      setResult(await computeHopDistance(session, from, to, hops));
+    } catch (e: any) {
+      setError(e.message?.includes("user rejected") ? "Request rejected by user" : e.message || "Unknown error");
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  return (
+    <section className="hop-distance">
+      <h3>Hop Distance</h3>
+      <div className="hop-distance-form">
+        <input
+          type="number"
+          placeholder="Analysis session id"
+          value={sessionId}
+          onChange={(e) => setSessionId(e.target.value)}
+        />
+        <input
+          type="number"
+          placeholder="From trader pseudonym"
+          value={fromTrader}
+          onChange={(e) => setFromTrader(e.target.value)}
+        />
+        <input
+          type="number"
+          placeholder="To trader pseudonym"
+          value={toTrader}
+          onChange={(e) => setToTrader(e.target.value)}
+        />
+        <input
+          type="number"
+          min={1}
+          title="Largest distance to look for"
+          value={maxHops}
+          onChange={(e) => setMaxHops(e.target.value)}
+        />
+        <button className="confirm-button" onClick={compute} disabled={computing}>
+          {computing ? "Computing..." : "Compute"}
+        </button>
+      </div>
+
+      {result && (
+        <p className="hop-distance-result">
+          {result.distance > result.maxHops
+            ? `More than ${result.maxHops} hops apart`
+            : `${result.distance} ${result.distance === 1 ? "hop" : "hops"}`}
+          <span> (result #{result.resultId})</span>
+        </p>
+      )}
+      {error && <p className="hop-distance-error">{error}</p>}
+    </section>
+  );
+};
+
+export default HopDistanceWidget;
@@ -1,11 +1,49 @@
 // contract.ts
 import { ethers } from "ethers";
+import { createInstance, FhevmInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+// Minimal InsiderRingAnalysis interface used by the dashboard
+export const ANALYSIS_ABI = [
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function REGULATOR_ROLE() view returns (bytes32)",
+  "function BROKER_ROLE() view returns (bytes32)",
+  "function ADMIN_ROLE() view returns (bytes32)",
+  "function matrixSize() view returns (uint256)",
+  "function graphMode() view returns (uint8)",
+  "function matrixInit() view returns (uint256 size, uint256 cursor, uint256 generation, bool preserve, bool active)",
+  "function sessionCount() view returns (uint256)",
+  "function analysisSessions(uint256) view returns (uint256 id, address creator, uint256 matrixSize, uint256 matrixVersion, uint256 windowStart, uint256 windowEnd, uint8 state, uint256 createdAt, uint256 updatedAt)",
+  "function revealThreshold() view returns (uint32)",
+  "function revealQuorum() view returns (uint256)",
+  "function revealApprovalWindow() view returns (uint256)",
+  "function revealApprovals(uint256) view returns (uint256 round, uint256 openedAt, uint256 approvals)",
+  "function isRevealApprovalOpen(uint256 analysisId) view returns (bool)",
+  "function hasApprovedReveal(uint256 analysisId, address regulator) view returns (bool)",
+  "function approveReveal(uint256 analysisId, bytes32 justificationHash)",
+  "function nodeTraderIds(uint256) view returns (uint32)",
+  "function startGraphSnapshot(uint256 analysisId)",
+  "function continueGraphSnapshot(uint256 analysisId, uint256 maxCells) returns (bool)",
+  "function getGraphSnapshot(uint256 analysisId) view returns (uint256 nodeCount, uint256 edgeCount, uint256 nextEdge, uint256 nextCell, bool active)",
+  "function startHopDistance(uint256 analysisId, bytes32 fromNode, bytes32 toNode, bytes inputProof, uint256 maxHops) returns (uint256)",
+  "function continueHopDistance(uint256 resultId, uint256 maxSteps) returns (bool)",
+  "function getHopDistanceRun(uint256 resultId) view returns (uint256 analysisId, uint256 nodeCount, uint256 maxHops, uint256 hops, uint256 next, bool active)",
+  "function getHopDistance(uint256 resultId) view returns (bytes32)",
+  "event HopDistanceStarted(uint256 indexed resultId, uint256 indexed analysisId, uint256 maxHops)"
+];
+
+export const ROLES = {
+  admin: ethers.id("ADMIN_ROLE"),
+  regulator: ethers.id("REGULATOR_ROLE"),
+  broker: ethers.id("BROKER_ROLE")
+};
+
+export type RoleName = keyof typeof ROLES;
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -67,6 +105,289 @@ export async function getContractReadOnly() {
   }
 }
 
+export async function getAnalysisContractReadOnly() {
+  if (!config.analysisContractAddress) {
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(config.analysisContractAddress, ANALYSIS_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create analysis contract:", error);
+    return null;
+  }
+}
+
+export async function hasAnalysisRole(role: RoleName, account: string): Promise<boolean> {
+  if (!account) return false;
+  const contract = await getAnalysisContractReadOnly();
+  if (!contract) return false;
+  return retry(() => contract.hasRole(ROLES[role], account));
+}
+
+export interface MatrixInitStatus {
+  size: number;
+  active: boolean;
+  cursor: number;
+  totalCells: number;
+}
+
+export async function getMatrixInitStatus(): Promise<MatrixInitStatus | null> {
+  const contract = await getAnalysisContractReadOnly();
+  if (!contract) return null;
+  const init = await retry(() => contract.matrixInit());
+  if (init.active) {
+    const size = Number(init.size);
+    return { size, active: true, cursor: Number(init.cursor), totalCells: size * size };
+  }
+  const size = Number(await retry(() => contract.matrixSize()));
+  return { size, active: false, cursor: size * size, totalCells: size * size };
+}
+
+// InsiderRingAnalysis.SessionState, in declaration order
+export const SESSION_STATES = [
+  "none",
+  "created",
+  "running",
+  "completed",
+  "revealRequested",
+  "revealed",
+  "cancelled",
+  "thresholdCheckRequested",
+  "aboveThreshold",
+  "belowThreshold"
+] as const;
+
+export type SessionStateName = typeof SESSION_STATES[number];
+
+// Two-stage reveal: stage one decrypts only "risk score >= threshold", stage two the ring members
+export const REVEAL_STAGES: Record<SessionStateName, string> = {
+  none: "Unknown",
+  created: "Analysis pending",
+  running: "Analysis running",
+  completed: "Awaiting threshold check",
+  thresholdCheckRequested: "Stage 1: checking threshold",
+  aboveThreshold: "Stage 1 passed: members revealable",
+  belowThreshold: "Below threshold: not disclosed",
+  revealRequested: "Stage 2: decrypting members",
+  revealed: "Revealed",
+  cancelled: "Cancelled"
+};
+
+export interface AnalysisSessionSummary {
+  id: number;
+  creator: string;
+  state: SessionStateName;
+  updatedAt: number;
+}
+
+export async function getAnalysisSessions(limit = 20): Promise<AnalysisSessionSummary[]> {
+  const contract = await getAnalysisContractReadOnly();
+  if (!contract) return [];
+  const count = Number(await retry(() => contract.sessionCount()));
+
+  const sessions: AnalysisSessionSummary[] = [];
+  for (let id = count; id > 0 && sessions.length < limit; id--) {
+    const s = await retry(() => contract.analysisSessions(id));
+    sessions.push({
+      id,
+      creator: s.creator,
+      state: SESSION_STATES[Number(s.state)] ?? "none",
+      updatedAt: Number(s.updatedAt)
+    });
+  }
+  return sessions;
+}
+
+export async function getRevealThreshold(): Promise<number | null> {
+  const contract = await getAnalysisContractReadOnly();
+  if (!contract) return null;
+  return Number(await retry(() => contract.revealThreshold()));
+}
+
+export interface PendingReveal {
+  sessionId: number;
+  approvals: number;
+  quorum: number;
+  // Unix seconds the open approval round lapses at, null when no round is open
+  expiresAt: number | null;
+  approvedByAccount: boolean;
+}
+
+// Sessions above the reveal threshold that still need regulator approvals to decrypt their members
+export async function getPendingReveals(account: string): Promise<PendingReveal[]> {
+  const contract = await getAnalysisContractReadOnly();
+  if (!contract) return [];
+  const pending = (await getAnalysisSessions()).filter(s => s.state === "aboveThreshold");
+  if (pending.length === 0) return [];
+
+  const quorum = Number(await retry(() => contract.revealQuorum()));
+  const window = Number(await retry(() => contract.revealApprovalWindow()));
+  const reveals: PendingReveal[] = [];
+  for (const session of pending) {
+    const round = await retry(() => contract.revealApprovals(session.id));
+    const open = await retry(() => contract.isRevealApprovalOpen(session.id));
+    reveals.push({
+      sessionId: session.id,
+      approvals: open ? Number(round.approvals) : 0,
+      quorum,
+      expiresAt: open ? Number(round.openedAt) + window : null,
+      approvedByAccount: !!account && await retry(() => contract.hasApprovedReveal(session.id, account))
+    });
+  }
+  return reveals;
+}
+
+// Approves a member reveal; only the hash of the written justification goes on chain
+export async function approveReveal(sessionId: number, justification: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.analysisContractAddress) {
+    throw new Error("Analysis contract address not configured");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const contract = new ethers.Contract(config.analysisContractAddress, ANALYSIS_ABI, await provider.getSigner());
+  const tx = await contract.approveReveal(sessionId, ethers.id(justification));
+  return tx.wait();
+}
+
+let fhevmInstance: Promise<FhevmInstance> | null = null;
+
+// Relayer SDK instance for encrypting inputs and user-decrypting results, created once
+const getFhevmInstance = () => {
+  if (!fhevmInstance) {
+    fhevmInstance = initSDK().then(() => createInstance({ ...SepoliaConfig, network: (window as any).ethereum }));
+    fhevmInstance.catch(() => { fhevmInstance = null; });
+  }
+  return fhevmInstance;
+};
+
+// Decrypts a handle the signer has been granted, signing a one-day user decryption permit
+async function userDecrypt(signer: ethers.Signer, contractAddress: string, handle: string): Promise<bigint> {
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = 1;
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  const results = await instance.userDecrypt(
+    [{ handle, contractAddress }],
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    durationDays
+  );
+  return BigInt(results[handle] as bigint);
+}
+
+export interface HopDistance {
+  resultId: number;
+  // Hops on the shortest path, or maxHops + 1 when further away or unreachable
+  distance: number;
+  maxHops: number;
+}
+
+// Steps per continueHopDistance transaction; a hop takes one step per node plus one
+const HOP_DISTANCE_CHUNK = 2;
+// Cells folded per continueGraphSnapshot transaction
+const GRAPH_SNAPSHOT_CHUNK = 48;
+// InsiderRingStorage.GraphMode.Sparse
+const SPARSE_GRAPH_MODE = 1;
+
+// The public node index table: as long as the matrix in dense mode, read to its end in sparse mode
+async function readNodeTable(contract: ethers.Contract, sparse: boolean): Promise<number[]> {
+  const nodes: number[] = [];
+  const size = sparse ? Infinity : Number(await retry(() => contract.matrixSize()));
+  while (nodes.length < size) {
+    try {
+      nodes.push(Number(await contract.nodeTraderIds(nodes.length)));
+    } catch (e) {
+      if (sparse) break;
+      throw e;
+    }
+  }
+  return nodes;
+}
+
+// Sparse sessions read their graph from a snapshot folded once per session; dense ones need none
+async function takeGraphSnapshot(contract: ethers.Contract, analysisId: number): Promise<void> {
+  let snapshot = await retry(() => contract.getGraphSnapshot(analysisId));
+  if (snapshot.nodeCount === 0n) {
+    await (await contract.startGraphSnapshot(analysisId)).wait();
+    snapshot = await retry(() => contract.getGraphSnapshot(analysisId));
+  }
+  while (snapshot.active) {
+    await (await contract.continueGraphSnapshot(analysisId, GRAPH_SNAPSHOT_CHUNK)).wait();
+    snapshot = await retry(() => contract.getGraphSnapshot(analysisId));
+  }
+}
+
+// Encrypts both traders' node indexes, computes their hop distance in a running session and decrypts it (regulators only)
+export async function computeHopDistance(
+  analysisId: number,
+  fromTraderId: number,
+  toTraderId: number,
+  maxHops: number
+): Promise<HopDistance> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.analysisContractAddress) {
+    throw new Error("Analysis contract address not configured");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  const contract = new ethers.Contract(config.analysisContractAddress, ANALYSIS_ABI, signer);
+
+  const sparse = Number(await retry(() => contract.graphMode())) === SPARSE_GRAPH_MODE;
+  const nodes = await readNodeTable(contract, sparse);
+  const from = nodes.indexOf(fromTraderId);
+  const to = nodes.indexOf(toTraderId);
+  if (from < 0 || to < 0) {
+    throw new Error(`Trader ${from < 0 ? fromTraderId : toTraderId} is not in the node index table`);
+  }
+
+  if (sparse) {
+    await takeGraphSnapshot(contract, analysisId);
+  }
+
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(config.analysisContractAddress, await signer.getAddress());
+  input.add32(from);
+  input.add32(to);
+  const encrypted = await input.encrypt();
+  const tx = await contract.startHopDistance(
+    analysisId,
+    ethers.hexlify(encrypted.handles[0]),
+    ethers.hexlify(encrypted.handles[1]),
+    ethers.hexlify(encrypted.inputProof),
+    maxHops
+  );
+  const receipt = await tx.wait();
+
+  const event = receipt.logs
+    .map((log: ethers.Log) => contract.interface.parseLog(log))
+    .find((parsed: ethers.LogDescription | null) => parsed?.name === "HopDistanceStarted");
+  if (!event) {
+    throw new Error("Hop distance was not started");
+  }
+  const resultId = Number(event.args.resultId);
+  while ((await retry(() => contract.getHopDistanceRun(resultId))).active) {
+    await (await contract.continueHopDistance(resultId, HOP_DISTANCE_CHUNK)).wait();
+  }
+  const handle = await contract.getHopDistance(resultId);
+  const distance = Number(await userDecrypt(signer, config.analysisContractAddress, handle));
+  return { resultId, distance, maxHops };
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
@@ -3,6 +3,19 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/benchmark";
+import "./tasks/disclosure";
+import "./tasks/events";
+import "./tasks/largeOrders";
+import "./tasks/matrix";
+import "./tasks/metrics";
+import "./tasks/patterns";
+import "./tasks/risk";
+import "./tasks/roles";
+import "./tasks/transactions";
+import "./tasks/volumeBaselines";
+import "./tasks/watchLists";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
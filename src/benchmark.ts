@@ -0,0 +1,191 @@
+// src/benchmark.ts
+import type { ContractTransactionResponse, Log, TransactionReceipt } from "ethers";
+
+// Coprocessor events emitted by the fhEVM executor, one per FHE operation
+export type FheOperation =
+  | "VerifyCiphertext"
+  | "TrivialEncrypt"
+  | "FheAdd"
+  | "FheSub"
+  | "FheMul"
+  | "FheDiv"
+  | "FheBitAnd"
+  | "FheBitOr"
+  | "FheEq"
+  | "FheNe"
+  | "FheGe"
+  | "FheGt"
+  | "FheLe"
+  | "FheLt"
+  | "FheNot"
+  | "Cast"
+  | "FheIfThenElse";
+
+// Operand types used by the analysis contracts, numbered as the `FheType` enum of @fhevm/core-contracts
+type PricedType = "Bool" | "Uint8" | "Uint32" | "Uint64";
+const FHE_TYPES: Record<number, PricedType> = { 0: "Bool", 2: "Uint8", 4: "Uint32", 5: "Uint64" };
+
+type PriceTable = Partial<Record<PricedType, number>>;
+
+/**
+ * HCU (homomorphic complexity units) charged per operation, copied from HCULimit.sol in
+ * @fhevm/core-contracts 0.8 for the operand types the contracts use. Binary operations have a
+ * scalar and a non-scalar price; the others price both cases alike. Ciphertext verification is free.
+ */
+export const HCU_PRICES: Record<FheOperation, { scalar: PriceTable; nonScalar: PriceTable }> = {
+  VerifyCiphertext: { scalar: {}, nonScalar: {} },
+  TrivialEncrypt: uniform({ Bool: 32, Uint8: 32, Uint32: 32, Uint64: 32 }),
+  FheAdd: {
+    scalar: { Uint8: 84_000, Uint32: 95_000, Uint64: 133_000 },
+    nonScalar: { Uint8: 88_000, Uint32: 125_000, Uint64: 162_000 },
+  },
+  FheSub: {
+    scalar: { Uint8: 84_000, Uint32: 95_000, Uint64: 133_000 },
+    nonScalar: { Uint8: 91_000, Uint32: 125_000, Uint64: 162_000 },
+  },
+  FheMul: {
+    scalar: { Uint8: 122_000, Uint32: 265_000, Uint64: 365_000 },
+    nonScalar: { Uint8: 150_000, Uint32: 328_000, Uint64: 596_000 },
+  },
+  FheDiv: uniform({ Uint8: 210_000, Uint32: 438_000, Uint64: 715_000 }),
+  FheBitAnd: {
+    scalar: { Bool: 22_000, Uint8: 31_000, Uint32: 32_000, Uint64: 34_000 },
+    nonScalar: { Bool: 25_000, Uint8: 31_000, Uint32: 32_000, Uint64: 34_000 },
+  },
+  FheBitOr: {
+    scalar: { Bool: 22_000, Uint8: 30_000, Uint32: 32_000, Uint64: 34_000 },
+    nonScalar: { Bool: 24_000, Uint8: 30_000, Uint32: 32_000, Uint64: 34_000 },
+  },
+  FheEq: {
+    scalar: { Bool: 25_000, Uint8: 55_000, Uint32: 82_000, Uint64: 83_000 },
+    nonScalar: { Bool: 26_000, Uint8: 55_000, Uint32: 86_000, Uint64: 120_000 },
+  },
+  FheNe: {
+    scalar: { Bool: 23_000, Uint8: 55_000, Uint32: 83_000, Uint64: 84_000 },
+    nonScalar: { Bool: 23_000, Uint8: 55_000, Uint32: 85_000, Uint64: 118_000 },
+  },
+  FheGe: {
+    scalar: { Uint8: 52_000, Uint32: 84_000, Uint64: 116_000 },
+    nonScalar: { Uint8: 63_000, Uint32: 118_000, Uint64: 152_000 },
+  },
+  FheGt: {
+    scalar: { Uint8: 52_000, Uint32: 84_000, Uint64: 117_000 },
+    nonScalar: { Uint8: 59_000, Uint32: 118_000, Uint64: 152_000 },
+  },
+  FheLe: {
+    scalar: { Uint8: 58_000, Uint32: 84_000, Uint64: 119_000 },
+    nonScalar: { Uint8: 58_000, Uint32: 117_000, Uint64: 149_000 },
+  },
+  FheLt: {
+    scalar: { Uint8: 52_000, Uint32: 83_000, Uint64: 118_000 },
+    nonScalar: { Uint8: 59_000, Uint32: 117_000, Uint64: 146_000 },
+  },
+  FheNot: uniform({ Bool: 2, Uint8: 9, Uint32: 32, Uint64: 63 }),
+  Cast: uniform({ Bool: 32, Uint8: 32, Uint32: 32, Uint64: 32 }),
+  FheIfThenElse: uniform({ Bool: 55_000, Uint8: 55_000, Uint32: 55_000, Uint64: 55_000 }),
+};
+
+function uniform(prices: PriceTable): { scalar: PriceTable; nonScalar: PriceTable } {
+  return { scalar: prices, nonScalar: prices };
+}
+
+export interface Measurement {
+  label: string;
+  gasUsed: bigint;
+  operations: Record<string, number>;
+  totalOperations: number;
+  hcu: number;
+  // Operations missing from HCU_PRICES, left out of `hcu`
+  unpricedOperations: number;
+}
+
+// Anything able to decode coprocessor events, such as the hardhat `fhevm` runtime
+export interface CoprocessorEventParser {
+  parseCoprocessorEvents(logs: Log[]): { eventName: string; args: object }[];
+}
+
+// The executor prices an operation by its operand type: the left operand of binary operations, the
+// branches of a select and the result of everything else. Handles carry their type in byte 30.
+function operandType(args: Record<string, unknown>): PricedType | undefined {
+  const handle = String(args.lhs ?? args.ifTrue ?? args.result ?? "");
+  return FHE_TYPES[parseInt(handle.slice(62, 64), 16)];
+}
+
+export function operationHcu(eventName: string, args: object): number | undefined {
+  const prices = HCU_PRICES[eventName as FheOperation];
+  if (!prices) {
+    return undefined;
+  }
+  if (eventName === "VerifyCiphertext") {
+    return 0;
+  }
+  const fields = args as Record<string, unknown>;
+  const type = operandType(fields);
+  const table = fields.scalarByte === "0x01" ? prices.scalar : prices.nonScalar;
+  return type === undefined ? undefined : table[type];
+}
+
+export function measureReceipt(
+  parser: CoprocessorEventParser,
+  label: string,
+  receipt: TransactionReceipt,
+): Measurement {
+  const operations: Record<string, number> = {};
+  let totalOperations = 0;
+  let hcu = 0;
+  let unpricedOperations = 0;
+  for (const event of parser.parseCoprocessorEvents([...receipt.logs])) {
+    operations[event.eventName] = (operations[event.eventName] ?? 0) + 1;
+    totalOperations++;
+    const price = operationHcu(event.eventName, event.args);
+    if (price === undefined) {
+      unpricedOperations++;
+    } else {
+      hcu += price;
+    }
+  }
+
+  return { label, gasUsed: receipt.gasUsed, operations, totalOperations, hcu, unpricedOperations };
+}
+
+export async function measure(
+  parser: CoprocessorEventParser,
+  label: string,
+  send: Promise<ContractTransactionResponse>,
+): Promise<Measurement> {
+  const tx = await send;
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return measureReceipt(parser, label, receipt);
+}
+
+export function sumMeasurements(label: string, measurements: Measurement[]): Measurement {
+  const operations: Record<string, number> = {};
+  for (const m of measurements) {
+    for (const [name, count] of Object.entries(m.operations)) {
+      operations[name] = (operations[name] ?? 0) + count;
+    }
+  }
+  return {
+    label,
+    gasUsed: measurements.reduce((sum, m) => sum + m.gasUsed, 0n),
+    operations,
+    totalOperations: measurements.reduce((sum, m) => sum + m.totalOperations, 0),
+    hcu: measurements.reduce((sum, m) => sum + m.hcu, 0),
+    unpricedOperations: measurements.reduce((sum, m) => sum + m.unpricedOperations, 0),
+  };
+}
+
+// Small deterministic PRNG so benchmark graphs are reproducible
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,111 @@
+// src/corporateEvents.ts
+import { Contract, ContractTransactionReceipt } from "ethers";
+import { readCsv, requireField } from "./csv";
+
+// Mirrors InsiderRingAnalysis.EventDirection
+export enum EventDirection {
+  Positive = 0,
+  Negative = 1,
+}
+
+export interface CorporateEventInput {
+  securityId: number;
+  announcementTime: number;
+  direction: EventDirection;
+}
+
+export interface CorporateEvent extends CorporateEventInput {
+  id: bigint;
+  active: boolean;
+}
+
+export interface RegisteredEvents {
+  firstId: bigint;
+  lastId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+const UINT32_MAX = 2 ** 32 - 1;
+
+function parseUint32(value: string, field: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > UINT32_MAX) {
+    throw new Error(`${field} must be an unsigned 32-bit integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Accepts the enum names (any case), "up"/"down", "+"/"-" or the numeric values
+export function parseDirection(value: string): EventDirection {
+  switch (value.trim().toLowerCase()) {
+    case "positive":
+    case "up":
+    case "+":
+    case "0":
+      return EventDirection.Positive;
+    case "negative":
+    case "down":
+    case "-":
+    case "1":
+      return EventDirection.Negative;
+    default:
+      throw new Error(`Unknown event direction "${value}"`);
+  }
+}
+
+// Unix seconds or an ISO-8601 date understood by Date.parse
+function parseAnnouncementTime(value: string): number {
+  const seconds = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+  if (!Number.isSafeInteger(seconds) || seconds < 0) {
+    throw new Error(`announcementTime must be unix seconds or an ISO-8601 date, got "${value}"`);
+  }
+  return seconds;
+}
+
+/**
+ * Reads an event calendar CSV with columns securityId,announcementTime,direction.
+ * announcementTime is unix seconds or an ISO-8601 date understood by Date.parse.
+ */
+export function readEventCalendar(file: string): CorporateEventInput[] {
+  return readCsv(file).map((row) => ({
+    securityId: parseUint32(requireField(row, "securityId"), "securityId"),
+    announcementTime: parseAnnouncementTime(requireField(row, "announcementTime")),
+    direction: parseDirection(requireField(row, "direction")),
+  }));
+}
+
+export async function registerCorporateEvents(
+  contract: Contract,
+  events: CorporateEventInput[],
+): Promise<RegisteredEvents> {
+  const tx = await contract.registerCorporateEvents(events);
+  const receipt: ContractTransactionReceipt | null = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+
+  const ids = receipt.logs
+    .map((log) => contract.interface.parseLog(log))
+    .filter((parsed) => parsed?.name === "CorporateEventRegistered")
+    .map((parsed) => parsed!.args.eventId as bigint);
+  if (ids.length !== events.length) {
+    throw new Error(`Expected ${events.length} CorporateEventRegistered events in ${receipt.hash}, got ${ids.length}`);
+  }
+  return { firstId: ids[0], lastId: ids[ids.length - 1], receipt };
+}
+
+export async function getCorporateEvents(contract: Contract): Promise<CorporateEvent[]> {
+  const count: bigint = await contract.corporateEventCount();
+  const events: CorporateEvent[] = [];
+  for (let id = 1n; id <= count; id++) {
+    const e = await contract.corporateEvents(id);
+    events.push({
+      id: e.id,
+      securityId: Number(e.securityId),
+      announcementTime: Number(e.announcementTime),
+      direction: Number(e.direction) as EventDirection,
+      active: e.active,
+    });
+  }
+  return events;
+}
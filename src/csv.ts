@@ -0,0 +1,66 @@
+// src/csv.ts
+import fs from "fs";
+
+export type CsvRow = Record<string, string>;
+
+// Minimal CSV reader: header row, comma separated, optional double-quoted fields
+export function parseCsv(text: string): CsvRow[] {
+  // Line numbers are kept from before blank and comment lines are dropped, for error messages
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line, number: i + 1 }))
+    .filter(({ line }) => line.trim() !== "" && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0].line).map((name) => name.trim());
+  return lines.slice(1).map(({ line, number }) => {
+    const values = splitCsvLine(line);
+    if (values.length !== header.length) {
+      throw new Error(`CSV line ${number}: expected ${header.length} fields, got ${values.length}`);
+    }
+    const row: CsvRow = {};
+    header.forEach((name, j) => (row[name] = values[j].trim()));
+    return row;
+  });
+}
+
+export function readCsv(file: string): CsvRow[] {
+  return parseCsv(fs.readFileSync(file, "utf8"));
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+export function requireField(row: CsvRow, name: string): string {
+  const value = row[name];
+  if (value === undefined || value === "") {
+    throw new Error(`Missing CSV field "${name}"`);
+  }
+  return value;
+}
@@ -0,0 +1,233 @@
+// src/disclosure.ts
+import { BytesLike, Contract, ContractTransactionReceipt, isHexString, keccak256, toUtf8Bytes } from "ethers";
+import { AnalysisSession, SessionState, WaitOptions, getSession, waitForSessionState } from "./sessions";
+
+// Reveal threshold the contract is deployed with
+export const DEFAULT_REVEAL_THRESHOLD = 50;
+
+// Where a session stands in the two-stage reveal, for display
+export const REVEAL_STAGES: Record<SessionState, string> = {
+  [SessionState.None]: "unknown",
+  [SessionState.Created]: "analysis pending",
+  [SessionState.Running]: "analysis running",
+  [SessionState.Completed]: "awaiting threshold check",
+  [SessionState.ThresholdCheckRequested]: "threshold check decrypting",
+  [SessionState.AboveThreshold]: "above threshold, members revealable",
+  [SessionState.BelowThreshold]: "below threshold, not disclosed",
+  [SessionState.RevealRequested]: "members decrypting",
+  [SessionState.Revealed]: "revealed",
+  [SessionState.Cancelled]: "cancelled",
+};
+
+// Mirrors the DecryptionKind enum in InsiderRingStorage.sol
+export enum DecryptionKind {
+  ThresholdCheck = 0,
+  RingMembers = 1,
+}
+
+// Mirrors the DecryptionStatus enum in InsiderRingStorage.sol
+export enum DecryptionStatus {
+  None = 0,
+  Pending = 1,
+  Fulfilled = 2,
+  Cancelled = 3,
+  // Timed out and re-requested under a new id
+  Superseded = 4,
+}
+
+export interface DecryptionRequest {
+  requestId: bigint;
+  sessionId: bigint;
+  kind: DecryptionKind;
+  status: DecryptionStatus;
+  requester: string;
+  requestedAt: number;
+  // After this, any regulator may retry or cancel the request
+  deadline: number;
+}
+
+export interface ThresholdCheck {
+  aboveThreshold: boolean;
+  session: AnalysisSession;
+}
+
+export interface RevealQuorum {
+  quorum: number;
+  // Seconds a round of approvals stays open
+  approvalWindow: number;
+  regulatorCount: number;
+}
+
+export interface RevealApprovalStatus {
+  round: bigint;
+  approvals: number;
+  quorum: number;
+  // Whether the round is still collecting approvals; a lapsed round restarts on the next approval
+  open: boolean;
+  expiresAt: number;
+}
+
+export interface RevealApproval {
+  receipt: ContractTransactionReceipt;
+  justificationHash: string;
+  approvals: number;
+  quorum: number;
+  // Whether this approval met the quorum and requested the member decryption
+  quorumReached: boolean;
+}
+
+async function waitFor(tx: { hash: string; wait(): Promise<ContractTransactionReceipt | null> }) {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
+
+export async function setRevealThreshold(contract: Contract, threshold: number): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.setRevealThreshold(threshold));
+}
+
+// Stage one: asks the oracle whether a completed session's risk score reaches the reveal threshold.
+// The threshold is fixed by the session's first check; later changes to it do not apply.
+export async function requestThresholdCheck(contract: Contract, sessionId: bigint): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.requestResultDecryption(sessionId));
+}
+
+export async function waitForThresholdCheck(
+  contract: Contract,
+  sessionId: bigint,
+  options?: WaitOptions,
+): Promise<ThresholdCheck> {
+  const session = await waitForSessionState(
+    contract,
+    sessionId,
+    [SessionState.AboveThreshold, SessionState.BelowThreshold],
+    options,
+  );
+  return { aboveThreshold: session.state === SessionState.AboveThreshold, session };
+}
+
+export async function setRevealQuorum(
+  contract: Contract,
+  quorum: number,
+  approvalWindow: number,
+): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.setRevealQuorum(quorum, approvalWindow));
+}
+
+export async function getRevealQuorum(contract: Contract): Promise<RevealQuorum> {
+  const [quorum, approvalWindow, regulatorCount] = await Promise.all([
+    contract.revealQuorum(),
+    contract.revealApprovalWindow(),
+    contract.regulatorCount(),
+  ]);
+  return { quorum: Number(quorum), approvalWindow: Number(approvalWindow), regulatorCount: Number(regulatorCount) };
+}
+
+// Hash recorded on chain for a written justification; a 32-byte hex string is taken as an existing hash
+export function justificationHash(justification: string | BytesLike): string {
+  if (typeof justification === "string") {
+    return isHexString(justification, 32) ? justification : keccak256(toUtf8Bytes(justification));
+  }
+  return keccak256(justification);
+}
+
+export async function getRevealApprovals(contract: Contract, sessionId: bigint): Promise<RevealApprovalStatus> {
+  const [round, open, { quorum, approvalWindow }] = await Promise.all([
+    contract.revealApprovals(sessionId),
+    contract.isRevealApprovalOpen(sessionId),
+    getRevealQuorum(contract),
+  ]);
+  return {
+    round: round.round,
+    approvals: open ? Number(round.approvals) : 0,
+    quorum,
+    open,
+    expiresAt: Number(round.openedAt) + approvalWindow,
+  };
+}
+
+/**
+ * Stage two: records the signer's approval to decrypt the ring members of a session that passed
+ * the threshold check. The approval that meets the regulator quorum requests the decryption.
+ */
+export async function approveMemberReveal(
+  contract: Contract,
+  sessionId: bigint,
+  justification: string | BytesLike,
+): Promise<RevealApproval> {
+  const session = await getSession(contract, sessionId);
+  if (session.state !== SessionState.AboveThreshold) {
+    throw new Error(`Session ${sessionId} is ${REVEAL_STAGES[session.state]}; members can not be revealed`);
+  }
+
+  const hash = justificationHash(justification);
+  const receipt = await waitFor(await contract.approveReveal(sessionId, hash));
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "RevealApproved") {
+      const approvals = Number(parsed.args.approvals);
+      const quorum = Number(parsed.args.quorum);
+      return { receipt, justificationHash: hash, approvals, quorum, quorumReached: approvals >= quorum };
+    }
+  }
+  throw new Error(`No RevealApproved event in ${receipt.hash}`);
+}
+
+export async function waitForMemberReveal(
+  contract: Contract,
+  sessionId: bigint,
+  options?: WaitOptions,
+): Promise<{ ringMembers: number[]; riskScore: number }> {
+  await waitForSessionState(contract, sessionId, SessionState.Revealed, options);
+  const [ringMembers, riskScore] = await contract.getDecryptedAnalysisResult(sessionId);
+  return { ringMembers: ringMembers.map(Number), riskScore: Number(riskScore) };
+}
+
+export async function setDecryptionTimeout(contract: Contract, timeout: number): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.setDecryptionTimeout(timeout));
+}
+
+export async function getDecryptionRequest(contract: Contract, requestId: bigint): Promise<DecryptionRequest> {
+  const request = await contract.decryptionRequests(requestId);
+  return {
+    requestId,
+    sessionId: request.analysisId,
+    kind: Number(request.kind) as DecryptionKind,
+    status: Number(request.status) as DecryptionStatus,
+    requester: request.requester,
+    requestedAt: Number(request.requestedAt),
+    deadline: Number(request.deadline),
+  };
+}
+
+// The most recent decryption requested for a session, or undefined if none was
+export async function getLatestDecryptionRequest(
+  contract: Contract,
+  sessionId: bigint,
+): Promise<DecryptionRequest | undefined> {
+  const request = await getDecryptionRequest(contract, await contract.latestDecryptionRequest(sessionId));
+  return request.status === DecryptionStatus.None ? undefined : request;
+}
+
+// Re-requests a decryption the oracle missed the deadline for; returns the new request id
+export async function retryDecryption(contract: Contract, requestId: bigint): Promise<bigint> {
+  const receipt = await waitFor(await contract.retryDecryption(requestId));
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "DecryptionRetried") {
+      return parsed.args.retryRequestId;
+    }
+  }
+  throw new Error(`No DecryptionRetried event in ${receipt.hash}`);
+}
+
+/**
+ * Withdraws a pending decryption. The session returns to the stage it was requested from; a
+ * cancelled threshold check is checked against the same threshold when requested again, and a
+ * cancelled member reveal needs a fresh quorum of approvals.
+ */
+export async function cancelDecryption(contract: Contract, requestId: bigint): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.cancelDecryption(requestId));
+}
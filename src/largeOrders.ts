@@ -0,0 +1,73 @@
+// src/largeOrders.ts
+import { Contract, ContractTransactionReceipt, hexlify } from "ethers";
+import { readCsv, requireField } from "./csv";
+import { EncryptedInputFactory, MAX_INPUT_BITS, TradeSide, getBrokerAddress, parseTradeSide } from "./transactions";
+
+export interface PlainLargeOrder {
+  // Pseudonym of the client placing the order; its own trades never count as front-running
+  client: number | bigint;
+  security: number | bigint;
+  // When the broker received the order, unix seconds
+  timestamp: number | bigint;
+  side: TradeSide;
+}
+
+export interface SubmittedLargeOrders {
+  firstId: bigint;
+  lastId: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+// Encrypted fields per order, in ExternalLargeOrder order:
+// client, security (32 bits), timestamp (64 bits), side (8 bits)
+export const LARGE_ORDER_FIELDS = 4;
+export const LARGE_ORDER_BITS = 2 * 32 + 64 + 8;
+export const MAX_LARGE_ORDERS_PER_PROOF = Math.floor(MAX_INPUT_BITS / LARGE_ORDER_BITS);
+
+// Reads a large order file with the columns client, security, timestamp and side
+export function readLargeOrders(file: string): PlainLargeOrder[] {
+  return readCsv(file).map((row) => ({
+    client: BigInt(requireField(row, "client")),
+    security: BigInt(requireField(row, "security")),
+    timestamp: BigInt(requireField(row, "timestamp")),
+    side: parseTradeSide(requireField(row, "side")),
+  }));
+}
+
+/**
+ * Encrypts large client orders as the broker's input and reports them in one transaction.
+ * Returns the ids the contract assigned, for use as a front-running scan's order range.
+ */
+export async function submitLargeOrders(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  orders: PlainLargeOrder[],
+): Promise<SubmittedLargeOrders> {
+  if (orders.length === 0 || orders.length > MAX_LARGE_ORDERS_PER_PROOF) {
+    throw new Error(`Expected 1 to ${MAX_LARGE_ORDERS_PER_PROOF} orders per proof, got ${orders.length}`);
+  }
+
+  const input = fhevm.createEncryptedInput(await contract.getAddress(), await getBrokerAddress(contract));
+  for (const order of orders) {
+    input.add32(order.client).add32(order.security).add64(order.timestamp).add8(order.side);
+  }
+  const encrypted = await input.encrypt();
+  const handles = encrypted.handles.map((handle) => hexlify(handle));
+  const tuples: string[][] = [];
+  for (let i = 0; i < handles.length; i += LARGE_ORDER_FIELDS) {
+    tuples.push(handles.slice(i, i + LARGE_ORDER_FIELDS));
+  }
+
+  const tx = await contract.submitLargeOrders(tuples, hexlify(encrypted.inputProof));
+  const receipt: ContractTransactionReceipt | null = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "LargeOrdersSubmitted") {
+      return { firstId: parsed.args.firstId, lastId: parsed.args.lastId, receipt };
+    }
+  }
+  throw new Error(`No LargeOrdersSubmitted event in ${receipt.hash}`);
+}
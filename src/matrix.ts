@@ -0,0 +1,183 @@
+// src/matrix.ts
+import { Contract, ContractTransactionReceipt } from "ethers";
+
+// Mirrors InsiderRingStorage.GraphMode
+export enum GraphMode {
+  Dense,
+  Sparse,
+}
+
+export interface MatrixInitProgress {
+  cursor: bigint;
+  totalCells: bigint;
+  cellsPerChunk: bigint;
+}
+
+export interface MatrixInitOptions {
+  // Keep the cells of nodes present in both the old and the new size
+  preserve?: boolean;
+  // Share of the latest block gas limit a single chunk may use
+  gasBudgetRatio?: number;
+  onProgress?: (progress: MatrixInitProgress) => void;
+}
+
+export interface MatrixBuildProgress {
+  // Last transaction folded in completely
+  processedUpTo: bigint;
+  // Next cell of the transaction after it, in dense mode
+  nextCell: bigint;
+  lastId: bigint;
+}
+
+export interface MatrixBuildOptions {
+  // Trader pseudonym of each matrix node, in node order
+  nodeTraderIds: number[];
+  firstId: bigint | number;
+  lastId: bigint | number;
+  // Matrix cells folded per call to processMatrixBuild (transactions in sparse mode); a dense
+  // trade takes matrixSize^2 cells. Each cell costs about 0.25M HCU of the 20M per transaction.
+  chunkSize?: number;
+  onProgress?: (progress: MatrixBuildProgress) => void;
+}
+
+async function waitFor(tx: { hash: string; wait(): Promise<ContractTransactionReceipt | null> }) {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
+
+// Gas estimates are taken at two chunk sizes to separate the fixed cost from the per-cell cost
+const PROBE_CELLS = 8n;
+
+async function estimateCellsPerChunk(contract: Contract, remaining: bigint, gasBudget: bigint): Promise<bigint> {
+  const small = await contract.continueMatrixInitialization.estimateGas(PROBE_CELLS);
+  const large = await contract.continueMatrixInitialization.estimateGas(PROBE_CELLS * 2n);
+  const perCell = large > small ? (large - small) / PROBE_CELLS : 1n;
+  const fixed = small > perCell * PROBE_CELLS ? small - perCell * PROBE_CELLS : 0n;
+
+  const cells = gasBudget > fixed ? (gasBudget - fixed) / perCell : 1n;
+  if (cells < 1n) return 1n;
+  return cells < remaining ? cells : remaining;
+}
+
+/**
+ * Initializes (or, with `preserve`, resizes) the adjacency matrix in gas-bounded chunks.
+ * Resumes an initialization to the same size that a previous run left unfinished.
+ */
+export async function initializeMatrix(contract: Contract, size: number, options: MatrixInitOptions = {}): Promise<void> {
+  let init = await contract.matrixInit();
+  if (init.active && init.size !== BigInt(size)) {
+    throw new Error(`An initialization to size ${init.size} is already in progress`);
+  }
+  if (!init.active) {
+    const start = options.preserve ? contract.resizeAdjacencyMatrix : contract.initializeAdjacencyMatrix;
+    await waitFor(await start(size));
+    init = await contract.matrixInit();
+  }
+
+  const provider = contract.runner?.provider;
+  const latest = provider ? await provider.getBlock("latest") : null;
+  if (!latest) {
+    throw new Error("Unable to read the latest block");
+  }
+  const gasBudget = (latest.gasLimit * BigInt(Math.round((options.gasBudgetRatio ?? 0.5) * 100))) / 100n;
+  const totalCells = BigInt(size) * BigInt(size);
+
+  while (init.active) {
+    const remaining = totalCells - init.cursor;
+    const cells = remaining <= PROBE_CELLS ? remaining : await estimateCellsPerChunk(contract, remaining, gasBudget);
+
+    await waitFor(await contract.continueMatrixInitialization(cells));
+    init = await contract.matrixInit();
+
+    const cursor = init.active ? init.cursor : totalCells;
+    options.onProgress?.({ cursor, totalCells, cellsPerChunk: cells });
+  }
+}
+
+// Abandons a pending initialization or resize; the current matrix stays in use
+export async function cancelMatrixInitialization(contract: Contract): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.cancelMatrixInitialization());
+}
+
+/**
+ * Abandons a matrix build. If part of its range was already folded in, the graph can not be
+ * analysed again until the matrix is initialized afresh or the sparse edges are cleared.
+ */
+export async function cancelMatrixBuild(contract: Contract): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.cancelMatrixBuild());
+}
+
+// Node index of a trader pseudonym in the public node index table
+export async function getNodeIndex(contract: Contract, traderId: number): Promise<number> {
+  const index = (await currentNodeTable(contract)).indexOf(traderId);
+  if (index < 0) {
+    throw new Error(`Trader ${traderId} is not in the node index table`);
+  }
+  return index;
+}
+
+/**
+ * The public node index table. In dense mode it has to match the matrix size and reads as
+ * empty until it does; in sparse mode it defines the nodes, so it is read to its end.
+ */
+async function currentNodeTable(contract: Contract): Promise<number[]> {
+  const sparse = Number(await contract.graphMode()) === GraphMode.Sparse;
+  const size: bigint = sparse ? 0n : await contract.matrixSize();
+  const ids: number[] = [];
+  for (let i = 0n; sparse || i < size; i++) {
+    try {
+      ids.push(Number(await contract.nodeTraderIds(i)));
+    } catch {
+      // Dense: table shorter than the matrix, so not set yet. Sparse: end of the table.
+      return sparse ? ids : [];
+    }
+  }
+  return ids;
+}
+
+/**
+ * Folds a range of submitted transactions into the encrypted adjacency matrix (dense mode) or
+ * the sparse edge list, in chunks of `chunkSize` cells. An interrupted build of the same range
+ * is picked up where it stopped; a build of any other range has to finish or be cancelled first.
+ */
+export async function buildMatrixFromTransactions(contract: Contract, options: MatrixBuildOptions): Promise<void> {
+  const chunkSize = options.chunkSize ?? 48;
+
+  let build = await contract.matrixBuild();
+  if (build.active && (build.firstId !== BigInt(options.firstId) || build.lastId !== BigInt(options.lastId))) {
+    throw new Error(`A build of transactions ${build.firstId}-${build.lastId} is already in progress`);
+  }
+  if (!build.active) {
+    // Sparse graphs take their nodes from the table alone; dense ones need a table per matrix node
+    if (Number(await contract.graphMode()) === GraphMode.Dense) {
+      const size: bigint = await contract.matrixSize();
+      if (BigInt(options.nodeTraderIds.length) !== size) {
+        throw new Error(`Node table has ${options.nodeTraderIds.length} entries, matrix size is ${size}`);
+      }
+    } else if (options.nodeTraderIds.length === 0) {
+      throw new Error("Node table is empty");
+    }
+
+    const table = await currentNodeTable(contract);
+    if (table.join(",") !== options.nodeTraderIds.join(",")) {
+      await waitFor(await contract.setNodeIndexTable(options.nodeTraderIds));
+    }
+    await waitFor(await contract.startMatrixBuild(options.firstId, options.lastId));
+    build = await contract.matrixBuild();
+  }
+
+  while (build.active) {
+    const receipt = await waitFor(await contract.processMatrixBuild(chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "MatrixBuildProgress") {
+        const { processedUpTo, nextCell, lastId } = parsed.args;
+        options.onProgress?.({ processedUpTo, nextCell, lastId });
+      }
+    }
+    build = await contract.matrixBuild();
+  }
+}
@@ -0,0 +1,501 @@
+// src/metrics.ts
+import { Contract, ContractTransactionReceipt, Signer, hexlify } from "ethers";
+import { GraphMode, getNodeIndex } from "./matrix";
+import type { PlainNodeMetrics } from "./reference/metrics";
+import { DEFAULT_DAMPING_BPS } from "./reference/pagerank";
+import { EncryptedInputFactory } from "./transactions";
+
+export interface GraphSnapshotProgress {
+  nextEdge: bigint;
+  nextCell: bigint;
+  edgeCount: bigint;
+  nodeCount: bigint;
+}
+
+export interface GraphSnapshotOptions {
+  // Cells folded per call to continueGraphSnapshot; like a matrix build, about 0.25M HCU per cell
+  chunkSize?: number;
+  onProgress?: (progress: GraphSnapshotProgress) => void;
+}
+
+export interface CentralityProgress {
+  processedUpTo: bigint;
+  nodeCount: bigint;
+}
+
+export interface CentralityOptions {
+  // Nodes computed per call to continueCentrality; each reads 2 * (n - 1) matrix cells
+  chunkSize?: number;
+  onProgress?: (progress: CentralityProgress) => void;
+}
+
+export interface TriangleScanProgress {
+  nextI: bigint;
+  nextJ: bigint;
+  nextK: bigint;
+  nodeCount: bigint;
+}
+
+export interface TriangleCountOptions {
+  // Neighbour pairs checked per call to continueTriangleCount
+  chunkSize?: number;
+  onProgress?: (progress: TriangleScanProgress) => void;
+}
+
+export interface TriangleCountHandles {
+  triangles: string[];
+  closedTriplets: string;
+  connectedTriplets: string;
+}
+
+export interface ComponentLabellingProgress {
+  round: bigint;
+  next: bigint;
+  rounds: bigint;
+  nodeCount: bigint;
+}
+
+export interface ComponentLabellingOptions {
+  // Propagation rounds; n - 1 always suffices, fewer do for graphs of small diameter
+  rounds?: number;
+  // Also link nodes that co-traded in at least this many cells of the session's similarity scan
+  minSharedCells?: number;
+  // Nodes relabelled (or candidate components sized) per call to continueComponentLabelling
+  chunkSize?: number;
+  onProgress?: (progress: ComponentLabellingProgress) => void;
+}
+
+export interface ComponentHandles {
+  labels: string[];
+  // Ring members in the format of getEncryptedAnalysisResult: node index + 1, or 0
+  ring: string[];
+}
+
+export interface PageRankProgress {
+  iteration: bigint;
+  next: bigint;
+  iterations: bigint;
+  nodeCount: bigint;
+}
+
+export interface PageRankOptions {
+  iterations?: number;
+  // Damping factor in basis points
+  dampingBps?: number;
+  // Steps per call to continuePageRank; an iteration takes 2 * n steps
+  chunkSize?: number;
+  onProgress?: (progress: PageRankProgress) => void;
+}
+
+export interface HopDistanceProgress {
+  hops: bigint;
+  next: bigint;
+  maxHops: bigint;
+  nodeCount: bigint;
+}
+
+export interface HopDistanceOptions {
+  // Steps per call to continueHopDistance; a hop takes n + 1 steps
+  chunkSize?: number;
+  onProgress?: (progress: HopDistanceProgress) => void;
+}
+
+export interface SimilarityScanProgress {
+  nextCell: bigint;
+  nextStep: bigint;
+  cells: number;
+}
+
+export interface SimilarityScanOptions {
+  // Security IDs whose time buckets count as shared activity
+  securities: number[];
+  // Start of the first time bucket, unix seconds
+  startTime: number;
+  bucketSeconds: number;
+  bucketCount: number;
+  firstId: bigint | number;
+  lastId: bigint | number;
+  // Steps per call to continueSimilarityScan; each bucket takes one step per transaction and
+  // one per node pair
+  chunkSize?: number;
+  onProgress?: (progress: SimilarityScanProgress) => void;
+}
+
+export interface NodeMetricHandles {
+  inDegree: string;
+  outDegree: string;
+  inVolume: string;
+  outVolume: string;
+  reciprocity: string;
+}
+
+// User-decrypts a metric handle the signer has been granted; degrees are euint32, volumes euint64
+export type MetricDecryptor = (handle: string, bits: 32 | 64) => Promise<bigint>;
+
+async function waitFor(tx: { hash: string; wait(): Promise<ContractTransactionReceipt | null> }) {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
+
+/**
+ * Folds the sparse edges of a running analysis session into the n x n cells its network metrics
+ * read, in chunks of `chunkSize` cells; every metric of a sparse session needs it first. An
+ * unfinished snapshot is picked up where it stopped. Dense sessions read the adjacency matrix
+ * itself, so this does nothing for them.
+ */
+export async function takeGraphSnapshot(
+  contract: Contract,
+  analysisId: bigint,
+  options: GraphSnapshotOptions = {},
+): Promise<void> {
+  if (Number(await contract.graphMode()) !== GraphMode.Sparse) {
+    return;
+  }
+  const chunkSize = options.chunkSize ?? 48;
+
+  let snapshot = await contract.getGraphSnapshot(analysisId);
+  if (snapshot.nodeCount === 0n) {
+    await waitFor(await contract.startGraphSnapshot(analysisId));
+    snapshot = await contract.getGraphSnapshot(analysisId);
+  }
+
+  while (snapshot.active) {
+    const receipt = await waitFor(await contract.continueGraphSnapshot(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "GraphSnapshotProgress") {
+        const { nextEdge, nextCell } = parsed.args;
+        options.onProgress?.({ nextEdge, nextCell, edgeCount: snapshot.edgeCount, nodeCount: snapshot.nodeCount });
+      }
+    }
+    snapshot = await contract.getGraphSnapshot(analysisId);
+  }
+}
+
+/**
+ * Computes encrypted in/out-degree, in/out-volume and reciprocity of every node for a running
+ * analysis session, in chunks of `chunkSize` nodes. An unfinished run is picked up where it
+ * stopped.
+ */
+export async function computeCentrality(
+  contract: Contract,
+  analysisId: bigint,
+  options: CentralityOptions = {},
+): Promise<void> {
+  const chunkSize = options.chunkSize ?? 2;
+
+  let run = await contract.getCentralityRun(analysisId);
+  if (!run.active) {
+    await waitFor(await contract.startCentrality(analysisId));
+    run = await contract.getCentralityRun(analysisId);
+  }
+
+  while (run.active) {
+    const receipt = await waitFor(await contract.continueCentrality(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "CentralityProgress") {
+        options.onProgress?.({ processedUpTo: parsed.args.processedUpTo, nodeCount: parsed.args.nodeCount });
+      }
+    }
+    run = await contract.getCentralityRun(analysisId);
+  }
+}
+
+// Lets `analyst` user-decrypt the metrics of one node
+export async function grantNodeMetrics(
+  contract: Contract,
+  analysisId: bigint,
+  node: number,
+  analyst: string,
+): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.grantNodeMetrics(analysisId, node, analyst));
+}
+
+export async function getNodeMetricHandles(
+  contract: Contract,
+  analysisId: bigint,
+  node: number,
+): Promise<NodeMetricHandles> {
+  const metrics = await contract.getNodeMetrics(analysisId, node);
+  return {
+    inDegree: metrics.inDegree,
+    outDegree: metrics.outDegree,
+    inVolume: metrics.inVolume,
+    outVolume: metrics.outVolume,
+    reciprocity: metrics.reciprocity,
+  };
+}
+
+/**
+ * Fetches and decrypts the metrics of a node for display. The decrypting account needs a
+ * grant from grantNodeMetrics first.
+ */
+export async function decryptNodeMetrics(
+  contract: Contract,
+  analysisId: bigint,
+  node: number,
+  decrypt: MetricDecryptor,
+): Promise<PlainNodeMetrics> {
+  const handles = await getNodeMetricHandles(contract, analysisId, node);
+  return {
+    inDegree: Number(await decrypt(handles.inDegree, 32)),
+    outDegree: Number(await decrypt(handles.outDegree, 32)),
+    inVolume: await decrypt(handles.inVolume, 64),
+    outVolume: await decrypt(handles.outVolume, 64),
+    reciprocity: Number(await decrypt(handles.reciprocity, 32)),
+  };
+}
+
+/**
+ * Counts the triangles of every node and the clustering coefficient terms for a running
+ * analysis session, in chunks of `chunkSize` neighbour pairs. An unfinished scan is picked up
+ * where it stopped. Returns the encrypted handles, granted to the signer.
+ */
+export async function countTriangles(
+  contract: Contract,
+  analysisId: bigint,
+  options: TriangleCountOptions = {},
+): Promise<TriangleCountHandles> {
+  const chunkSize = options.chunkSize ?? 16;
+
+  let scan = await contract.getTriangleScan(analysisId);
+  if (!scan.active) {
+    await waitFor(await contract.startTriangleCount(analysisId));
+    scan = await contract.getTriangleScan(analysisId);
+  }
+
+  while (scan.active) {
+    const receipt = await waitFor(await contract.continueTriangleCount(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "TriangleScanProgress") {
+        const { nextI, nextJ, nextK } = parsed.args;
+        options.onProgress?.({ nextI, nextJ, nextK, nodeCount: scan.nodeCount });
+      }
+    }
+    scan = await contract.getTriangleScan(analysisId);
+  }
+
+  const [triangles, closedTriplets, connectedTriplets] = await contract.getTriangleCounts(analysisId);
+  return { triangles: [...triangles], closedTriplets, connectedTriplets };
+}
+
+/**
+ * Labels the connected components of a running analysis session's graph and derives the ring
+ * from the largest component with a node on a detected cycle, in chunks of `chunkSize` steps.
+ * With `minSharedCells`, nodes that co-traded that often in the session's finished similarity
+ * scan (computeSimilarity) count as linked as well. An unfinished run is picked up where it
+ * stopped, whatever `rounds` and `minSharedCells` say. Returns the encrypted handles, granted
+ * to the signer.
+ */
+export async function labelComponents(
+  contract: Contract,
+  analysisId: bigint,
+  options: ComponentLabellingOptions = {},
+): Promise<ComponentHandles> {
+  const chunkSize = options.chunkSize ?? 2;
+
+  let run = await contract.getComponentRun(analysisId);
+  if (!run.active) {
+    const nodeCount = Number(await contract.matrixSize());
+    const rounds = options.rounds ?? nodeCount - 1;
+    await waitFor(await contract.startComponentLabelling(analysisId, rounds, options.minSharedCells ?? 0));
+    run = await contract.getComponentRun(analysisId);
+  }
+
+  while (run.active) {
+    const receipt = await waitFor(await contract.continueComponentLabelling(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "ComponentLabellingProgress") {
+        const { round, next } = parsed.args;
+        options.onProgress?.({ round, next, rounds: run.rounds, nodeCount: run.nodeCount });
+      }
+    }
+    run = await contract.getComponentRun(analysisId);
+  }
+
+  const [labels, ring] = await contract.getComponents(analysisId);
+  return { labels: [...labels], ring: [...ring] };
+}
+
+/**
+ * Computes a fixed-point PageRank of a running analysis session's graph, in chunks of
+ * `chunkSize` steps; centrality has to be computed first. An unfinished run is picked up
+ * where it stopped, whatever `iterations` and `dampingBps` say. Returns the encrypted scores
+ * (units of 1 / PAGERANK_SCALE), granted to the signer.
+ */
+export async function computePageRank(
+  contract: Contract,
+  analysisId: bigint,
+  options: PageRankOptions = {},
+): Promise<string[]> {
+  const chunkSize = options.chunkSize ?? 2;
+
+  let run = await contract.getPageRankRun(analysisId);
+  if (!run.active) {
+    const iterations = options.iterations ?? 20;
+    await waitFor(
+      await contract.startPageRank(analysisId, iterations, options.dampingBps ?? DEFAULT_DAMPING_BPS),
+    );
+    run = await contract.getPageRankRun(analysisId);
+  }
+
+  while (run.active) {
+    const receipt = await waitFor(await contract.continuePageRank(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "PageRankProgress") {
+        const { iteration, next } = parsed.args;
+        options.onProgress?.({ iteration, next, iterations: run.iterations, nodeCount: run.nodeCount });
+      }
+    }
+    run = await contract.getPageRankRun(analysisId);
+  }
+
+  return [...(await contract.getPageRankScores(analysisId))];
+}
+
+/**
+ * Computes the encrypted hop distance from trader `fromTraderId` to trader `toTraderId` over
+ * the directed graph of a running analysis session, capped at `maxHops` (further or unreachable
+ * reads maxHops + 1), in chunks of `chunkSize` steps. The node indexes are encrypted as the
+ * regulator's input, so the chain does not learn which traders were compared. Returns the
+ * result id; the distance is granted to the signer.
+ */
+export async function computeHopDistance(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  analysisId: bigint,
+  fromTraderId: number,
+  toTraderId: number,
+  maxHops: number,
+  options: HopDistanceOptions = {},
+): Promise<bigint> {
+  const regulator = contract.runner as Signer | null;
+  if (!regulator || typeof regulator.getAddress !== "function") {
+    throw new Error("Contract must be connected to a regulator signer");
+  }
+  const from = await getNodeIndex(contract, fromTraderId);
+  const to = await getNodeIndex(contract, toTraderId);
+
+  const input = fhevm.createEncryptedInput(await contract.getAddress(), await regulator.getAddress());
+  input.add32(from);
+  input.add32(to);
+  const encrypted = await input.encrypt();
+  const [fromHandle, toHandle] = encrypted.handles.map(hexlify);
+  const receipt = await waitFor(
+    await contract.startHopDistance(analysisId, fromHandle, toHandle, hexlify(encrypted.inputProof), maxHops),
+  );
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "HopDistanceStarted") {
+      const resultId: bigint = parsed.args.resultId;
+      await finishHopDistance(contract, resultId, options);
+      return resultId;
+    }
+  }
+  throw new Error(`No HopDistanceStarted event in transaction ${receipt.hash}`);
+}
+
+// Runs a started hop distance computation to its end, such as one a failure interrupted
+export async function finishHopDistance(
+  contract: Contract,
+  resultId: bigint,
+  options: HopDistanceOptions = {},
+): Promise<void> {
+  const chunkSize = options.chunkSize ?? 2;
+
+  let run = await contract.getHopDistanceRun(resultId);
+  while (run.active) {
+    const receipt = await waitFor(await contract.continueHopDistance(resultId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "HopDistanceProgress") {
+        const { hops, next } = parsed.args;
+        options.onProgress?.({ hops, next, maxHops: run.maxHops, nodeCount: run.nodeCount });
+      }
+    }
+    run = await contract.getHopDistanceRun(resultId);
+  }
+}
+
+// Lets `analyst` user-decrypt a hop distance
+export async function grantHopDistance(
+  contract: Contract,
+  resultId: bigint,
+  analyst: string,
+): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.grantHopDistance(resultId, analyst));
+}
+
+/**
+ * Fetches and decrypts a hop distance. The decrypting account needs to be the regulator that
+ * computed it or have a grant from grantHopDistance.
+ */
+export async function decryptHopDistance(
+  contract: Contract,
+  resultId: bigint,
+  decrypt: (handle: string) => Promise<bigint>,
+): Promise<number> {
+  return Number(await decrypt(await contract.getHopDistance(resultId)));
+}
+
+/**
+ * Counts the security/time bucket cells every pair of traders of the node index table traded
+ * in, for a running analysis session. An interrupted scan with the same parameters is picked
+ * up where it stopped. Returns the encrypted similarity matrix, row-major like the adjacency
+ * matrix and granted to the signer.
+ */
+export async function computeSimilarity(
+  contract: Contract,
+  analysisId: bigint,
+  options: SimilarityScanOptions,
+): Promise<string[]> {
+  const chunkSize = options.chunkSize ?? 4;
+  const cells = options.securities.length * options.bucketCount;
+
+  let scan = await contract.getSimilarityScan(analysisId);
+  const [securities] = await contract.getSimilarityMatrix(analysisId);
+  const sameScan =
+    securities.length === options.securities.length &&
+    options.securities.every((id, i) => Number(securities[i]) === id) &&
+    Number(scan.startTime) === options.startTime &&
+    Number(scan.bucketSeconds) === options.bucketSeconds &&
+    Number(scan.bucketCount) === options.bucketCount &&
+    scan.firstId === BigInt(options.firstId) &&
+    scan.lastId === BigInt(options.lastId);
+  if (!scan.active || !sameScan) {
+    await waitFor(
+      await contract.startSimilarityScan(
+        analysisId,
+        options.securities,
+        options.startTime,
+        options.bucketSeconds,
+        options.bucketCount,
+        options.firstId,
+        options.lastId,
+      ),
+    );
+    scan = await contract.getSimilarityScan(analysisId);
+  }
+
+  while (scan.active) {
+    const receipt = await waitFor(await contract.continueSimilarityScan(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "SimilarityScanProgress") {
+        options.onProgress?.({ nextCell: parsed.args.nextCell, nextStep: parsed.args.nextStep, cells });
+      }
+    }
+    scan = await contract.getSimilarityScan(analysisId);
+  }
+
+  const [, similarity] = await contract.getSimilarityMatrix(analysisId);
+  return [...similarity];
+}
@@ -0,0 +1,90 @@
+// src/migration.ts
+import { Contract, ContractRunner, EventLog } from "ethers";
+import { InstrumentType, PlainTransaction, TradeSide } from "./transactions";
+
+// Parts of InsiderRingAnalysis deployments from before the 64-bit transaction schema, whose
+// five transaction fields were all euint32
+export const LEGACY_TRANSACTION_ABI = [
+  "function encryptedTransactions(uint256) view returns (uint256 id, bytes32 encryptedTraderId, bytes32 encryptedCounterparty, bytes32 encryptedSecurity, bytes32 encryptedAmount, bytes32 encryptedTimestamp, uint256 submissionTime)",
+  "event TransactionSubmitted(uint256 indexed id, uint256 timestamp)",
+  "event TransactionBatchSubmitted(uint256 indexed firstId, uint256 indexed lastId, address indexed broker)",
+];
+
+// User-decrypts an euint32 handle of the legacy contract on behalf of the migrating broker
+export type LegacyDecryptor = (handle: string) => Promise<bigint>;
+
+// Values for the fields legacy records do not have
+export interface MigrationDefaults {
+  price: number | bigint;
+  side: TradeSide;
+  instrumentType: InstrumentType;
+}
+
+export interface LegacyExportProgress {
+  exported: number;
+  total: number;
+}
+
+export interface LegacyExportOptions {
+  defaults: MigrationDefaults;
+  onProgress?: (progress: LegacyExportProgress) => void;
+}
+
+export function getLegacyContract(address: string, runner: ContractRunner): Contract {
+  return new Contract(address, LEGACY_TRANSACTION_ABI, runner);
+}
+
+/**
+ * Ids of the legacy transactions submitted by `broker`, in ascending order. Brokers are
+ * granted access to the ciphertexts they submit, so these are the records they can migrate.
+ */
+export async function findLegacyTransactionIds(legacy: Contract, broker: string, fromBlock = 0): Promise<bigint[]> {
+  const ids: bigint[] = [];
+  for (const log of await legacy.queryFilter(legacy.filters.TransactionBatchSubmitted(null, null, broker), fromBlock)) {
+    const { firstId, lastId } = (log as EventLog).args;
+    for (let id: bigint = firstId; id <= lastId; id++) ids.push(id);
+  }
+  // Single submissions do not name their broker; the sender of the transaction does
+  for (const log of await legacy.queryFilter(legacy.filters.TransactionSubmitted(), fromBlock)) {
+    const tx = await log.getTransaction();
+    if (tx.from.toLowerCase() === broker.toLowerCase()) ids.push((log as EventLog).args.id);
+  }
+  return ids.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Decrypts legacy transactions into the current schema. Amounts and timestamps carry over
+ * unchanged into their 64-bit fields; price, side and instrument type come from `defaults`.
+ * Written out with writeTradeFile, the result can be reviewed and then re-encrypted into a
+ * new deployment with uploadTrades.
+ */
+export async function exportLegacyTransactions(
+  legacy: Contract,
+  ids: bigint[],
+  decrypt: LegacyDecryptor,
+  options: LegacyExportOptions,
+): Promise<PlainTransaction[]> {
+  const trades: PlainTransaction[] = [];
+  for (const id of ids) {
+    const record = await legacy.encryptedTransactions(id);
+    if (record.id !== id) {
+      throw new Error(`Legacy transaction ${id} does not exist`);
+    }
+
+    const fields: bigint[] = [];
+    for (const handle of [
+      record.encryptedTraderId,
+      record.encryptedCounterparty,
+      record.encryptedSecurity,
+      record.encryptedAmount,
+      record.encryptedTimestamp,
+    ]) {
+      fields.push(await decrypt(handle));
+    }
+
+    const [traderId, counterparty, security, amount, timestamp] = fields;
+    trades.push({ traderId, counterparty, security, amount, timestamp, ...options.defaults });
+    options.onProgress?.({ exported: trades.length, total: ids.length });
+  }
+  return trades;
+}
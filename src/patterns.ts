@@ -0,0 +1,341 @@
+// src/patterns.ts
+import { Contract, ContractTransactionReceipt, Signer, hexlify } from "ethers";
+import type { EncryptedInputFactory } from "./transactions";
+
+export interface WashTradeScanProgress {
+  nextA: bigint;
+  nextB: bigint;
+  lastId: bigint;
+}
+
+export interface WashTradeScanOptions {
+  firstId: bigint | number;
+  lastId: bigint | number;
+  // Self-dealing checks and trade pairs evaluated per call to continueWashTradeScan
+  chunkSize?: number;
+  onProgress?: (progress: WashTradeScanProgress) => void;
+}
+
+export interface EventWindowScanProgress {
+  processedUpTo: bigint;
+  lastId: bigint;
+}
+
+export interface EventWindowScanOptions {
+  // Seconds before the announcement that count as pre-announcement trading
+  lookback: number;
+  firstId: bigint | number;
+  lastId: bigint | number;
+  // Transactions checked per call to continueEventWindowScan
+  chunkSize?: number;
+  onProgress?: (progress: EventWindowScanProgress) => void;
+}
+
+export interface WatchListScanProgress {
+  processedUpTo: bigint;
+  lastId: bigint;
+}
+
+export interface WatchListScanOptions {
+  firstId: bigint | number;
+  lastId: bigint | number;
+  // Transactions checked per call to continueWatchListScan; each costs one comparison per
+  // listed security and two per listed trader
+  chunkSize?: number;
+  onProgress?: (progress: WatchListScanProgress) => void;
+}
+
+export interface FrontRunScanProgress {
+  nextId: bigint;
+  nextOrder: bigint;
+  lastId: bigint;
+}
+
+export interface FrontRunScanOptions {
+  // Seconds before an order in which same-side trades in its security count as front-running
+  window: number;
+  firstOrder: bigint | number;
+  lastOrder: bigint | number;
+  firstId: bigint | number;
+  lastId: bigint | number;
+  // Transaction/order pairs checked per call to continueFrontRunScan; finishing a transaction
+  // also costs one comparison per node
+  chunkSize?: number;
+  onProgress?: (progress: FrontRunScanProgress) => void;
+}
+
+export interface FrontRunCounts {
+  // Per node of the node index table
+  counts: string[];
+  total: string;
+}
+
+export interface VolumeSpikeScanProgress {
+  nextCell: bigint;
+  cells: number;
+}
+
+export interface VolumeSpikeScanOptions {
+  // Security IDs to aggregate, each with a baseline set on chain
+  securities: number[];
+  // Start of the first time bucket, unix seconds
+  startTime: number;
+  bucketSeconds: number;
+  bucketCount: number;
+  firstId: bigint | number;
+  lastId: bigint | number;
+  // Cell/transaction pairs checked per call to continueVolumeSpikeScan; finishing a cell also
+  // costs its baseline comparison
+  chunkSize?: number;
+  onProgress?: (progress: VolumeSpikeScanProgress) => void;
+}
+
+export interface VolumeSpikes {
+  securities: number[];
+  // Encrypted ebool and euint32 handles per security and bucket, security-major
+  flags: string[];
+  tradeCounts: string[];
+}
+
+export interface EventWindowResult {
+  tradeCount: string;
+  tradeVolume: string;
+}
+
+async function waitFor(tx: { hash: string; wait(): Promise<ContractTransactionReceipt | null> }) {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
+
+/**
+ * Encrypts `seconds` as the admin's input and installs it as the wash-trade matching window.
+ */
+export async function setWashTradeWindow(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  seconds: number,
+): Promise<ContractTransactionReceipt> {
+  const admin = contract.runner as Signer | null;
+  if (!admin || typeof admin.getAddress !== "function") {
+    throw new Error("Contract must be connected to an admin signer");
+  }
+
+  const input = fhevm.createEncryptedInput(await contract.getAddress(), await admin.getAddress());
+  const encrypted = await input.add32(seconds).encrypt();
+  return waitFor(await contract.setWashTradeWindow(hexlify(encrypted.handles[0]), hexlify(encrypted.inputProof)));
+}
+
+/**
+ * Counts wash trades among a range of transactions for a running analysis session, in
+ * chunks of `chunkSize` checks. An interrupted scan of the same range is picked up where
+ * it stopped. Returns the handle of the encrypted count.
+ */
+export async function scanWashTrades(
+  contract: Contract,
+  analysisId: bigint,
+  options: WashTradeScanOptions,
+): Promise<string> {
+  const chunkSize = options.chunkSize ?? 8;
+
+  let scan = await contract.washTradeScans(analysisId);
+  const sameRange = scan.firstId === BigInt(options.firstId) && scan.lastId === BigInt(options.lastId);
+  if (!scan.active || !sameRange) {
+    await waitFor(await contract.startWashTradeScan(analysisId, options.firstId, options.lastId));
+    scan = await contract.washTradeScans(analysisId);
+  }
+
+  while (scan.active) {
+    const receipt = await waitFor(await contract.continueWashTradeScan(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "WashTradeScanProgress") {
+        options.onProgress?.({ nextA: parsed.args.nextA, nextB: parsed.args.nextB, lastId: scan.lastId });
+      }
+    }
+    scan = await contract.washTradeScans(analysisId);
+  }
+
+  return contract.getWashTradeCount(analysisId);
+}
+
+/**
+ * Counts and sums the trades in a corporate event's security executed during the look-back
+ * window before its announcement, for a running analysis session. An interrupted scan with
+ * the same parameters is picked up where it stopped. Returns the encrypted result handles.
+ */
+export async function scanEventWindow(
+  contract: Contract,
+  analysisId: bigint,
+  eventId: bigint,
+  options: EventWindowScanOptions,
+): Promise<EventWindowResult> {
+  const chunkSize = options.chunkSize ?? 8;
+
+  let scan = await contract.eventWindowScans(analysisId, eventId);
+  const sameScan =
+    Number(scan.lookback) === options.lookback &&
+    scan.firstId === BigInt(options.firstId) &&
+    scan.lastId === BigInt(options.lastId);
+  if (!scan.active || !sameScan) {
+    await waitFor(
+      await contract.startEventWindowScan(analysisId, eventId, options.lookback, options.firstId, options.lastId),
+    );
+    scan = await contract.eventWindowScans(analysisId, eventId);
+  }
+
+  while (scan.active) {
+    const receipt = await waitFor(await contract.continueEventWindowScan(analysisId, eventId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "EventWindowScanProgress") {
+        options.onProgress?.({ processedUpTo: parsed.args.processedUpTo, lastId: parsed.args.lastId });
+      }
+    }
+    scan = await contract.eventWindowScans(analysisId, eventId);
+  }
+
+  const [tradeCount, tradeVolume] = await contract.getEventWindowResult(analysisId, eventId);
+  return { tradeCount, tradeVolume };
+}
+
+/**
+ * Matches a range of transactions against the encrypted watch lists for a running analysis
+ * session. An interrupted scan of the same range is picked up where it stopped, unless the
+ * lists changed since. Returns the handle of the encrypted hit count.
+ */
+export async function scanWatchLists(
+  contract: Contract,
+  analysisId: bigint,
+  options: WatchListScanOptions,
+): Promise<string> {
+  const chunkSize = options.chunkSize ?? 2;
+
+  let scan = await contract.watchListScans(analysisId);
+  const sameScan =
+    scan.firstId === BigInt(options.firstId) &&
+    scan.lastId === BigInt(options.lastId) &&
+    scan.listVersion === (await contract.watchListVersion());
+  if (!scan.active || !sameScan) {
+    await waitFor(await contract.startWatchListScan(analysisId, options.firstId, options.lastId));
+    scan = await contract.watchListScans(analysisId);
+  }
+
+  while (scan.active) {
+    const receipt = await waitFor(await contract.continueWatchListScan(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "WatchListScanProgress") {
+        options.onProgress?.({ processedUpTo: parsed.args.processedUpTo, lastId: parsed.args.lastId });
+      }
+    }
+    scan = await contract.watchListScans(analysisId);
+  }
+
+  return contract.getWatchListHits(analysisId);
+}
+
+/**
+ * Counts the trades of a range that front-run a range of large client orders, per trader of
+ * the node index table, for a running analysis session. An interrupted scan with the same
+ * parameters is picked up where it stopped. Returns the encrypted count handles; the total
+ * feeds the session's risk score.
+ */
+export async function scanFrontRunning(
+  contract: Contract,
+  analysisId: bigint,
+  options: FrontRunScanOptions,
+): Promise<FrontRunCounts> {
+  const chunkSize = options.chunkSize ?? 4;
+
+  let scan = await contract.getFrontRunScan(analysisId);
+  const sameScan =
+    Number(scan.window) === options.window &&
+    scan.firstOrder === BigInt(options.firstOrder) &&
+    scan.lastOrder === BigInt(options.lastOrder) &&
+    scan.firstId === BigInt(options.firstId) &&
+    scan.lastId === BigInt(options.lastId);
+  if (!scan.active || !sameScan) {
+    await waitFor(
+      await contract.startFrontRunScan(
+        analysisId,
+        options.window,
+        options.firstOrder,
+        options.lastOrder,
+        options.firstId,
+        options.lastId,
+      ),
+    );
+    scan = await contract.getFrontRunScan(analysisId);
+  }
+
+  while (scan.active) {
+    const receipt = await waitFor(await contract.continueFrontRunScan(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "FrontRunScanProgress") {
+        options.onProgress?.({ nextId: parsed.args.nextId, nextOrder: parsed.args.nextOrder, lastId: scan.lastId });
+      }
+    }
+    scan = await contract.getFrontRunScan(analysisId);
+  }
+
+  const [counts, total] = await contract.getFrontRunCounts(analysisId);
+  return { counts: [...counts], total };
+}
+
+/**
+ * Aggregates the volume of a range of trades per security and time bucket for a running
+ * analysis session and flags the buckets above the securities' baselines. An interrupted scan
+ * with the same parameters is picked up where it stopped. Returns the encrypted spike flag and
+ * trade count handles; the bucket volumes themselves stay on chain.
+ */
+export async function scanVolumeSpikes(
+  contract: Contract,
+  analysisId: bigint,
+  options: VolumeSpikeScanOptions,
+): Promise<VolumeSpikes> {
+  const chunkSize = options.chunkSize ?? 8;
+  const cells = options.securities.length * options.bucketCount;
+
+  let scan = await contract.getVolumeSpikeScan(analysisId);
+  const [securities] = await contract.getVolumeSpikes(analysisId);
+  const sameScan =
+    securities.length === options.securities.length &&
+    options.securities.every((id, i) => Number(securities[i]) === id) &&
+    Number(scan.startTime) === options.startTime &&
+    Number(scan.bucketSeconds) === options.bucketSeconds &&
+    Number(scan.bucketCount) === options.bucketCount &&
+    scan.firstId === BigInt(options.firstId) &&
+    scan.lastId === BigInt(options.lastId);
+  if (!scan.active || !sameScan) {
+    await waitFor(
+      await contract.startVolumeSpikeScan(
+        analysisId,
+        options.securities,
+        options.startTime,
+        options.bucketSeconds,
+        options.bucketCount,
+        options.firstId,
+        options.lastId,
+      ),
+    );
+    scan = await contract.getVolumeSpikeScan(analysisId);
+  }
+
+  while (scan.active) {
+    const receipt = await waitFor(await contract.continueVolumeSpikeScan(analysisId, chunkSize));
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "VolumeSpikeScanProgress") {
+        options.onProgress?.({ nextCell: parsed.args.nextCell, cells });
+      }
+    }
+    scan = await contract.getVolumeSpikeScan(analysisId);
+  }
+
+  const [scanned, flags, tradeCounts] = await contract.getVolumeSpikes(analysisId);
+  return { securities: scanned.map(Number), flags: [...flags], tradeCounts: [...tradeCounts] };
+}
@@ -0,0 +1,49 @@
+// src/reference/components.ts
+import { AdjacencyMatrix, assertSquare } from "./graph";
+
+/**
+ * Plaintext twin of the component labelling: node i starts with label i + 1 and every round
+ * lowers each node's label, in node order and in place, to the smallest label among its
+ * neighbours in the undirected graph (self-loops ignored). With too few rounds a component can
+ * still carry several labels, exactly as on chain. Given a similarity matrix and a non-zero
+ * `minSharedCells`, nodes sharing at least that many cells are neighbours too.
+ */
+export function labelComponents(
+  matrix: AdjacencyMatrix,
+  rounds: number,
+  similarity?: number[][],
+  minSharedCells = 0,
+): number[] {
+  const n = assertSquare(matrix);
+  const coTraded = (a: number, b: number) =>
+    minSharedCells > 0 && similarity !== undefined && similarity[a][b] >= minSharedCells;
+  const linked = (a: number, b: number) => matrix[a][b] !== 0n || matrix[b][a] !== 0n || coTraded(a, b);
+
+  const labels = Array.from({ length: n }, (_, i) => i + 1);
+  for (let round = 0; round < rounds; round++) {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (j !== i && linked(i, j) && labels[j] < labels[i]) labels[i] = labels[j];
+      }
+    }
+  }
+  return labels;
+}
+
+/**
+ * Ring member values (node index + 1, or 0) of the largest component holding a node with
+ * cycle participation; the smallest label wins among equally large components. All zero when
+ * no component is suspicious.
+ */
+export function largestSuspiciousComponent(labels: number[], participation: number[]): number[] {
+  let bestLabel = 0;
+  let bestSize = 0;
+  for (let label = 1; label <= labels.length; label++) {
+    const nodes = labels.flatMap((l, i) => (l === label ? [i] : []));
+    if (nodes.length > bestSize && nodes.some((i) => participation[i] > 0)) {
+      bestLabel = label;
+      bestSize = nodes.length;
+    }
+  }
+  return labels.map((label, i) => (label === bestLabel ? i + 1 : 0));
+}
@@ -0,0 +1,56 @@
+// src/reference/cycles.ts
+import { AdjacencyMatrix, assertSquare, edgeFlags } from "./graph";
+
+export interface ShortCycleCounts {
+  // Number of 2- and 3-cycles each node sits on
+  participation: number[];
+  reciprocal: number;
+  triangular: number;
+  total: number;
+  // Ring member values as stored by `computeRiskScore`: node index + 1, or 0 for non-members
+  ringMembers: number[];
+}
+
+/**
+ * Plaintext twin of `detectShortCycles`. Each directed cycle is counted once:
+ * i <-> j for i < j, and i -> j -> k -> i with i the smallest node.
+ */
+export function countShortCycles(matrix: AdjacencyMatrix): ShortCycleCounts {
+  const n = assertSquare(matrix);
+  const edges = edgeFlags(matrix);
+  const participation = new Array<number>(n).fill(0);
+  let reciprocal = 0;
+  let triangular = 0;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (edges[i][j] && edges[j][i]) {
+        participation[i]++;
+        participation[j]++;
+        reciprocal++;
+      }
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      for (let k = i + 1; k < n; k++) {
+        if (k === j) continue;
+        if (edges[i][j] && edges[j][k] && edges[k][i]) {
+          participation[i]++;
+          participation[j]++;
+          participation[k]++;
+          triangular++;
+        }
+      }
+    }
+  }
+
+  return {
+    participation,
+    reciprocal,
+    triangular,
+    total: reciprocal + triangular,
+    ringMembers: participation.map((count, i) => (count > 0 ? i + 1 : 0)),
+  };
+}
@@ -0,0 +1,68 @@
+// src/reference/graph.ts
+// Plaintext counterparts of the encrypted graph routines in InsiderRingAnalysis.
+// They follow the contract's semantics exactly so encrypted results can be compared to them.
+
+// Square matrix of edge weights, matrix[from][to]; a zero weight means no edge
+export type AdjacencyMatrix = bigint[][];
+
+// Edge weights are euint64 sums of trade amounts and wrap modulo 2^64
+const UINT64 = 2n ** 64n;
+
+export function assertSquare(matrix: AdjacencyMatrix): number {
+  const n = matrix.length;
+  for (const row of matrix) {
+    if (row.length !== n) {
+      throw new Error(`Adjacency matrix must be square, got a row of ${row.length} in a ${n}x${n} matrix`);
+    }
+  }
+  return n;
+}
+
+// Edge existence flags, as computed by `_edgeFlags` (weight != 0)
+export function edgeFlags(matrix: AdjacencyMatrix): boolean[][] {
+  assertSquare(matrix);
+  return matrix.map((row) => row.map((weight) => weight !== 0n));
+}
+
+// Row-major flattening used by the contract's encryptedAdjacencyMatrix
+export function flatten(matrix: AdjacencyMatrix): bigint[] {
+  assertSquare(matrix);
+  return matrix.flat();
+}
+
+export interface PlainEdgeTrade {
+  traderId: number | bigint;
+  counterparty: number | bigint;
+  amount: number | bigint;
+}
+
+// Plaintext twin of `processMatrixBuild`: adds each trade's amount to cell (trader, counterparty);
+// trades involving a pseudonym missing from the node table are dropped
+export function buildAdjacencyMatrix(trades: PlainEdgeTrade[], nodeTraderIds: number[]): AdjacencyMatrix {
+  const n = nodeTraderIds.length;
+  const matrix: AdjacencyMatrix = Array.from({ length: n }, () => new Array<bigint>(n).fill(0n));
+
+  for (const trade of trades) {
+    const from = nodeTraderIds.indexOf(Number(trade.traderId));
+    const to = nodeTraderIds.indexOf(Number(trade.counterparty));
+    if (from >= 0 && to >= 0) {
+      matrix[from][to] = (matrix[from][to] + BigInt(trade.amount)) % UINT64;
+    }
+  }
+  return matrix;
+}
+
+export interface PlainSparseEdge {
+  from: number | bigint;
+  to: number | bigint;
+  weight: number | bigint;
+}
+
+// Plaintext twin of the sparse mode's dense view: cell (i, j) sums the weights of the
+// edges from nodeTraderIds[i] to nodeTraderIds[j]
+export function sparseToAdjacency(edges: PlainSparseEdge[], nodeTraderIds: number[]): AdjacencyMatrix {
+  return buildAdjacencyMatrix(
+    edges.map((edge) => ({ traderId: edge.from, counterparty: edge.to, amount: edge.weight })),
+    nodeTraderIds,
+  );
+}
@@ -0,0 +1,32 @@
+// src/reference/metrics.ts
+import { AdjacencyMatrix, assertSquare } from "./graph";
+
+export interface PlainNodeMetrics {
+  inDegree: number;
+  outDegree: number;
+  inVolume: bigint;
+  outVolume: bigint;
+  reciprocity: number;
+}
+
+const UINT64 = 2n ** 64n;
+
+/**
+ * Plaintext twin of the centrality computation for node `i`: degrees and volumes over its
+ * row and column without the self-loop, volumes wrapping like euint64.
+ */
+export function nodeMetrics(matrix: AdjacencyMatrix, i: number): PlainNodeMetrics {
+  const n = assertSquare(matrix);
+  const metrics: PlainNodeMetrics = { inDegree: 0, outDegree: 0, inVolume: 0n, outVolume: 0n, reciprocity: 0 };
+  for (let j = 0; j < n; j++) {
+    if (j === i) continue;
+    const outgoing = matrix[i][j];
+    const incoming = matrix[j][i];
+    if (outgoing !== 0n) metrics.outDegree++;
+    if (incoming !== 0n) metrics.inDegree++;
+    if (outgoing !== 0n && incoming !== 0n) metrics.reciprocity++;
+    metrics.outVolume = (metrics.outVolume + outgoing) % UINT64;
+    metrics.inVolume = (metrics.inVolume + incoming) % UINT64;
+  }
+  return metrics;
+}
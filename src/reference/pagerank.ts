@@ -0,0 +1,51 @@
+// src/reference/pagerank.ts
+import { AdjacencyMatrix, assertSquare } from "./graph";
+import { nodeMetrics } from "./metrics";
+
+// Scores are fixed-point in units of 1 / PAGERANK_SCALE (InsiderRingAnalysis.PAGERANK_SCALE)
+export const PAGERANK_SCALE = 1_000_000n;
+export const MAX_PAGERANK_ITERATIONS = 64;
+export const DEFAULT_DAMPING_BPS = 8500;
+
+/**
+ * Fixed-point factor a node with `outDegree` outgoing edges multiplies its score by before
+ * shifting right by 32: dampingBps * 2^32 / (10000 * outDegree), rounded down, or 0 without
+ * outgoing edges.
+ */
+export function pageRankShareFactor(dampingBps: number, outDegree: number): bigint {
+  if (outDegree === 0) return 0n;
+  return (BigInt(dampingBps) << 32n) / (10_000n * BigInt(outDegree));
+}
+
+/**
+ * Plaintext twin of the encrypted PageRank, bit for bit. Every node starts at
+ * PAGERANK_SCALE / n. Each iteration first computes, from the previous scores, the share
+ * (score * factor) >> 32 every node passes along each of its outgoing edges, then sets each
+ * node's score to (PAGERANK_SCALE * (10000 - dampingBps)) / (10000 * n) plus the shares of the
+ * nodes with an edge into it. Divisions round down, self-loops are ignored and the score of
+ * nodes without outgoing edges is dropped rather than spread over the graph.
+ */
+export function pageRank(matrix: AdjacencyMatrix, iterations: number, dampingBps = DEFAULT_DAMPING_BPS): bigint[] {
+  const n = assertSquare(matrix);
+  if (n === 0) {
+    throw new Error("PageRank needs at least one node");
+  }
+  if (!Number.isInteger(dampingBps) || dampingBps < 0 || dampingBps >= 10_000) {
+    throw new Error(`dampingBps must be an integer in [0, 10000), got ${dampingBps}`);
+  }
+
+  const factors = matrix.map((_, i) => pageRankShareFactor(dampingBps, nodeMetrics(matrix, i).outDegree));
+  const base = (PAGERANK_SCALE * BigInt(10_000 - dampingBps)) / (10_000n * BigInt(n));
+  let scores = new Array<bigint>(n).fill(PAGERANK_SCALE / BigInt(n));
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const shares = scores.map((score, i) => (score * factors[i]) >> 32n);
+    scores = scores.map((_, j) => {
+      let score = base;
+      for (let i = 0; i < n; i++) {
+        if (i !== j && matrix[i][j] !== 0n) score += shares[i];
+      }
+      return score;
+    });
+  }
+  return scores;
+}
@@ -0,0 +1,165 @@
+// src/reference/patterns.ts
+import type { PlainLargeOrder } from "../largeOrders";
+import type { PlainTransaction } from "../transactions";
+
+// Trades executed against their own trader
+export function isSelfTrade(trade: PlainTransaction): boolean {
+  return BigInt(trade.traderId) === BigInt(trade.counterparty);
+}
+
+// Same two parties with roles swapped, same security, at most `window` seconds apart
+export function isWashPair(a: PlainTransaction, b: PlainTransaction, window: number): boolean {
+  const gap = BigInt(a.timestamp) - BigInt(b.timestamp);
+  return (
+    BigInt(a.traderId) === BigInt(b.counterparty) &&
+    BigInt(a.counterparty) === BigInt(b.traderId) &&
+    BigInt(a.security) === BigInt(b.security) &&
+    (gap < 0n ? -gap : gap) <= BigInt(window)
+  );
+}
+
+/**
+ * Plaintext twin of the wash-trade scan: one hit per self-dealing trade plus one per
+ * wash-trade pair. A self-dealing trade also pairs with any other self-dealing trade of the
+ * same trader and security inside the window, exactly like the encrypted check.
+ */
+export function countWashTrades(trades: PlainTransaction[], window: number): number {
+  let count = 0;
+  for (let a = 0; a < trades.length; a++) {
+    if (isSelfTrade(trades[a])) count++;
+    for (let b = a + 1; b < trades.length; b++) {
+      if (isWashPair(trades[a], trades[b], window)) count++;
+    }
+  }
+  return count;
+}
+
+export interface EventWindowActivity {
+  tradeCount: number;
+  tradeVolume: bigint;
+}
+
+/**
+ * Plaintext twin of the pre-announcement scan: trades in `securityId` executed in
+ * [announcementTime - lookback, announcementTime), with the volume wrapping like euint64.
+ */
+export function eventWindowActivity(
+  trades: PlainTransaction[],
+  event: { securityId: number; announcementTime: number },
+  lookback: number,
+): EventWindowActivity {
+  const start = BigInt(Math.max(event.announcementTime - lookback, 0));
+  const end = BigInt(event.announcementTime);
+
+  let tradeCount = 0;
+  let tradeVolume = 0n;
+  for (const trade of trades) {
+    const time = BigInt(trade.timestamp);
+    if (BigInt(trade.security) === BigInt(event.securityId) && time >= start && time < end) {
+      tradeCount++;
+      tradeVolume = (tradeVolume + BigInt(trade.amount)) % 2n ** 64n;
+    }
+  }
+  return { tradeCount, tradeVolume };
+}
+
+// In a listed security, or with a listed trader as trader or counterparty
+export function touchesWatchList(trade: PlainTransaction, securities: number[], traders: number[]): boolean {
+  const listed = (list: number[], id: number | bigint) => list.some((entry) => BigInt(entry) === BigInt(id));
+  return listed(securities, trade.security) || listed(traders, trade.traderId) || listed(traders, trade.counterparty);
+}
+
+// Plaintext twin of the watch list scan: transactions that touch either list
+export function countWatchListHits(trades: PlainTransaction[], securities: number[], traders: number[]): number {
+  return trades.filter((trade) => touchesWatchList(trade, securities, traders)).length;
+}
+
+// Same security and side, by someone other than the client, at most `window` seconds before the order
+export function frontRuns(trade: PlainTransaction, order: PlainLargeOrder, window: number): boolean {
+  const lead = BigInt(order.timestamp) - BigInt(trade.timestamp);
+  return (
+    BigInt(trade.security) === BigInt(order.security) &&
+    trade.side === order.side &&
+    BigInt(trade.traderId) !== BigInt(order.client) &&
+    lead > 0n &&
+    lead <= BigInt(window)
+  );
+}
+
+export interface FrontRunCounts {
+  // Per node of the node index table
+  counts: number[];
+  total: number;
+}
+
+/**
+ * Plaintext twin of the front-running scan: one hit per (trade, order) pair, credited to the
+ * node whose pseudonym is the trade's trader. Hits of traders outside the node table only
+ * count towards the total.
+ */
+export function countFrontRuns(
+  trades: PlainTransaction[],
+  orders: PlainLargeOrder[],
+  window: number,
+  nodeTraderIds: number[],
+): FrontRunCounts {
+  const result: FrontRunCounts = { counts: new Array<number>(nodeTraderIds.length).fill(0), total: 0 };
+  for (const trade of trades) {
+    const hits = orders.filter((order) => frontRuns(trade, order, window)).length;
+    nodeTraderIds.forEach((id, node) => {
+      if (BigInt(id) === BigInt(trade.traderId)) result.counts[node] += hits;
+    });
+    result.total += hits;
+  }
+  return result;
+}
+
+export interface VolumeSpikeLayout {
+  securities: number[];
+  startTime: number;
+  bucketSeconds: number;
+  bucketCount: number;
+}
+
+export interface VolumeSpikeResult {
+  // Per security and bucket, security-major
+  volumes: bigint[];
+  tradeCounts: number[];
+  flags: boolean[];
+}
+
+/**
+ * Plaintext twin of the volume spike scan: trades in each security and bucket
+ * [startTime + b * bucketSeconds, startTime + (b + 1) * bucketSeconds), with the volume wrapping
+ * like euint64, flagged when it exceeds the security's baseline.
+ */
+export function volumeSpikes(
+  trades: PlainTransaction[],
+  layout: VolumeSpikeLayout,
+  baselines: Map<number, bigint>,
+): VolumeSpikeResult {
+  const result: VolumeSpikeResult = { volumes: [], tradeCounts: [], flags: [] };
+  for (const security of layout.securities) {
+    const baseline = baselines.get(security);
+    if (baseline === undefined) {
+      throw new Error(`No volume baseline for security ${security}`);
+    }
+    for (let b = 0; b < layout.bucketCount; b++) {
+      const start = BigInt(layout.startTime + b * layout.bucketSeconds);
+      const end = start + BigInt(layout.bucketSeconds);
+      let volume = 0n;
+      let count = 0;
+      for (const trade of trades) {
+        const time = BigInt(trade.timestamp);
+        if (BigInt(trade.security) === BigInt(security) && time >= start && time < end) {
+          volume = (volume + BigInt(trade.amount)) % 2n ** 64n;
+          count++;
+        }
+      }
+      result.volumes.push(volume);
+      result.tradeCounts.push(count);
+      result.flags.push(volume > baseline);
+    }
+  }
+  return result;
+}
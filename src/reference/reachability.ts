@@ -0,0 +1,44 @@
+// src/reference/reachability.ts
+import { AdjacencyMatrix, assertSquare, edgeFlags } from "./graph";
+
+/**
+ * Plaintext twin of `computeReachability`: runs exactly `rounds` boolean matrix-vector
+ * products starting from `start`, so nodes more than `rounds` hops away stay unreached.
+ */
+export function reachability(matrix: AdjacencyMatrix, start: number, rounds: number): boolean[] {
+  const n = assertSquare(matrix);
+  if (start < 0 || start >= n) {
+    throw new Error(`Invalid start node ${start}`);
+  }
+  if (rounds <= 0 || rounds > n) {
+    throw new Error(`Invalid rounds ${rounds}`);
+  }
+
+  const edges = edgeFlags(matrix);
+  let reached = Array.from({ length: n }, (_, i) => i === start);
+  for (let r = 0; r < rounds; r++) {
+    reached = reached.map((self, j) => self || reached.some((from, i) => from && edges[i][j]));
+  }
+  return reached;
+}
+
+/**
+ * Plaintext twin of `startHopDistance`/`continueHopDistance`: hops on the shortest directed path from `from` to
+ * `to`, or maxHops + 1 when `to` is further away, unreachable or either index is outside the
+ * node table.
+ */
+export function hopDistance(matrix: AdjacencyMatrix, from: number, to: number, maxHops: number): number {
+  const n = assertSquare(matrix);
+  if (maxHops <= 0 || maxHops > n) {
+    throw new Error(`Invalid hops ${maxHops}`);
+  }
+  if (from < 0 || from >= n || to < 0 || to >= n) {
+    return maxHops + 1;
+  }
+  if (from === to) return 0;
+
+  for (let hops = 1; hops <= maxHops; hops++) {
+    if (reachability(matrix, from, hops)[to]) return hops;
+  }
+  return maxHops + 1;
+}
@@ -0,0 +1,82 @@
+// src/reference/risk.ts
+import { AdjacencyMatrix, assertSquare } from "./graph";
+
+// Mirrors InsiderRingAnalysis.RiskWeights
+export interface RiskWeights {
+  cycleWeight: number;
+  volumeWeight: number;
+  volumeDivisor: number;
+  timingWeight: number;
+  timingWindow: number;
+  frontRunWeight: number;
+}
+
+// Weights the contract is deployed with
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  cycleWeight: 10,
+  volumeWeight: 1,
+  volumeDivisor: 1000,
+  timingWeight: 2,
+  timingWindow: 60,
+  frontRunWeight: 5,
+};
+
+export interface RiskInputs {
+  cycles: number;
+  ringVolume: bigint;
+  closeTradePairs: number;
+  // Trades front-running large orders; left out until the analysis finished a front-running scan
+  frontRuns?: number;
+}
+
+const UINT32 = 2n ** 32n;
+const UINT64 = 2n ** 64n;
+
+// euint32 arithmetic wraps modulo 2^32
+function wrap(value: bigint): bigint {
+  return ((value % UINT32) + UINT32) % UINT32;
+}
+
+/**
+ * Plaintext twin of the formula in `computeRiskScore`, including its uint32 wrap-around,
+ * the integer division of the uint64 ring volume and the truncation of its quotient to uint32.
+ */
+export function riskScore(inputs: RiskInputs, weights: RiskWeights = DEFAULT_RISK_WEIGHTS): number {
+  if (weights.volumeDivisor <= 0) {
+    throw new Error("volumeDivisor must be positive");
+  }
+
+  let score = wrap(BigInt(inputs.cycles) * BigInt(weights.cycleWeight));
+  const volumeUnits = wrap((inputs.ringVolume % UINT64) / BigInt(weights.volumeDivisor));
+  score = wrap(score + wrap(volumeUnits * BigInt(weights.volumeWeight)));
+  score = wrap(score + wrap(BigInt(inputs.closeTradePairs) * BigInt(weights.timingWeight)));
+  if (inputs.frontRuns !== undefined) {
+    score = wrap(score + wrap(BigInt(inputs.frontRuns) * BigInt(weights.frontRunWeight)));
+  }
+  return Number(score);
+}
+
+// Volume traded between nodes that are both flagged (> 0): cycle participation counts or ring member values
+export function ringVolume(matrix: AdjacencyMatrix, participation: number[]): bigint {
+  const n = assertSquare(matrix);
+  let volume = 0n;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (participation[i] > 0 && participation[j] > 0) {
+        volume = (volume + matrix[i][j]) % UINT64;
+      }
+    }
+  }
+  return volume;
+}
+
+// Pairs of trades whose timestamps are at most `window` seconds apart
+export function closeTradePairs(timestamps: number[], window: number): number {
+  let pairs = 0;
+  for (let a = 0; a < timestamps.length; a++) {
+    for (let b = a + 1; b < timestamps.length; b++) {
+      if (Math.abs(timestamps[a] - timestamps[b]) <= window) pairs++;
+    }
+  }
+  return pairs;
+}
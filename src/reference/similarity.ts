@@ -0,0 +1,49 @@
+// src/reference/similarity.ts
+import type { PlainTransaction } from "../transactions";
+
+export interface SimilarityLayout {
+  securities: number[];
+  startTime: number;
+  bucketSeconds: number;
+  bucketCount: number;
+}
+
+/**
+ * Plaintext twin of the similarity scan: for every pair of nodes, the security/bucket cells
+ * [startTime + b * bucketSeconds, startTime + (b + 1) * bucketSeconds) in which both traded as
+ * the trader of a transaction. Symmetric, with a zero diagonal, indexed like the adjacency matrix.
+ */
+export function coTradingSimilarity(
+  trades: PlainTransaction[],
+  nodeTraderIds: number[],
+  layout: SimilarityLayout,
+): number[][] {
+  const n = nodeTraderIds.length;
+  const similarity = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (const security of layout.securities) {
+    for (let b = 0; b < layout.bucketCount; b++) {
+      const start = BigInt(layout.startTime + b * layout.bucketSeconds);
+      const end = start + BigInt(layout.bucketSeconds);
+      const active = nodeTraderIds.map((id) =>
+        trades.some((trade) => {
+          const time = BigInt(trade.timestamp);
+          return (
+            BigInt(trade.traderId) === BigInt(id) &&
+            BigInt(trade.security) === BigInt(security) &&
+            time >= start &&
+            time < end
+          );
+        }),
+      );
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          if (active[i] && active[j]) {
+            similarity[i][j]++;
+            similarity[j][i]++;
+          }
+        }
+      }
+    }
+  }
+  return similarity;
+}
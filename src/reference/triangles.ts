@@ -0,0 +1,39 @@
+// src/reference/triangles.ts
+import { AdjacencyMatrix, assertSquare } from "./graph";
+
+export interface TriangleCounts {
+  // Triangles each node is on
+  triangles: number[];
+  // Global clustering coefficient = closedTriplets / connectedTriplets
+  closedTriplets: number;
+  connectedTriplets: number;
+}
+
+/**
+ * Plaintext twin of the triangle count: on the undirected graph (an edge either way links two
+ * nodes, self-loops ignored), a pair of node i's neighbours is a connected triplet and closes
+ * a triangle on i when the two neighbours are linked as well.
+ */
+export function countTriangles(matrix: AdjacencyMatrix): TriangleCounts {
+  const n = assertSquare(matrix);
+  const linked = (a: number, b: number) => matrix[a][b] !== 0n || matrix[b][a] !== 0n;
+
+  const counts: TriangleCounts = { triangles: new Array<number>(n).fill(0), closedTriplets: 0, connectedTriplets: 0 };
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      for (let k = j + 1; k < n; k++) {
+        if (j === i || k === i || !linked(i, j) || !linked(i, k)) continue;
+        counts.connectedTriplets++;
+        if (linked(j, k)) {
+          counts.triangles[i]++;
+          counts.closedTriplets++;
+        }
+      }
+    }
+  }
+  return counts;
+}
+
+export function clusteringCoefficient(counts: Pick<TriangleCounts, "closedTriplets" | "connectedTriplets">): number {
+  return counts.connectedTriplets === 0 ? 0 : counts.closedTriplets / counts.connectedTriplets;
+}
@@ -0,0 +1,48 @@
+// src/roles.ts
+import { Contract, ContractTransactionReceipt, id } from "ethers";
+
+// Role identifiers as hashed by InsiderRingAnalysis (keccak256 of the role name)
+export const ROLES = {
+  admin: id("ADMIN_ROLE"),
+  regulator: id("REGULATOR_ROLE"),
+  broker: id("BROKER_ROLE"),
+} as const;
+
+export type RoleName = keyof typeof ROLES;
+
+export function parseRole(name: string): RoleName {
+  const role = name.toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(ROLES, role)) {
+    throw new Error(`Unknown role "${name}", expected one of: ${Object.keys(ROLES).join(", ")}`);
+  }
+  return role as RoleName;
+}
+
+export async function hasRole(contract: Contract, role: RoleName, account: string): Promise<boolean> {
+  return contract.hasRole(ROLES[role], account);
+}
+
+// Lists every role held by an account
+export async function getRoles(contract: Contract, account: string): Promise<RoleName[]> {
+  const names = Object.keys(ROLES) as RoleName[];
+  const held = await Promise.all(names.map((name) => hasRole(contract, name, account)));
+  return names.filter((_, i) => held[i]);
+}
+
+export async function grantRole(
+  contract: Contract,
+  role: RoleName,
+  account: string,
+): Promise<ContractTransactionReceipt | null> {
+  const tx = await contract.grantRole(ROLES[role], account);
+  return tx.wait();
+}
+
+export async function revokeRole(
+  contract: Contract,
+  role: RoleName,
+  account: string,
+): Promise<ContractTransactionReceipt | null> {
+  const tx = await contract.revokeRole(ROLES[role], account);
+  return tx.wait();
+}
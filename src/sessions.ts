@@ -0,0 +1,136 @@
+// src/sessions.ts
+import { Contract, ContractTransactionReceipt } from "ethers";
+
+// Mirrors InsiderRingAnalysis.SessionState
+export enum SessionState {
+  None = 0,
+  Created = 1,
+  Running = 2,
+  Completed = 3,
+  RevealRequested = 4,
+  Revealed = 5,
+  Cancelled = 6,
+  ThresholdCheckRequested = 7,
+  AboveThreshold = 8,
+  BelowThreshold = 9,
+}
+
+export interface AnalysisSession {
+  id: bigint;
+  creator: string;
+  matrixSize: bigint;
+  matrixVersion: bigint;
+  windowStart: bigint;
+  windowEnd: bigint;
+  state: SessionState;
+  createdAt: bigint;
+  updatedAt: bigint;
+}
+
+export interface WaitOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+// States each state can move to, mirroring the transitions InsiderRingAnalysis allows;
+// Revealed, Cancelled and BelowThreshold are final
+const NEXT_STATES: Record<SessionState, SessionState[]> = {
+  [SessionState.None]: [SessionState.Created],
+  [SessionState.Created]: [SessionState.Running, SessionState.Cancelled],
+  [SessionState.Running]: [SessionState.Completed, SessionState.Cancelled],
+  [SessionState.Completed]: [SessionState.ThresholdCheckRequested, SessionState.Cancelled],
+  [SessionState.ThresholdCheckRequested]: [
+    SessionState.AboveThreshold,
+    SessionState.BelowThreshold,
+    SessionState.Completed,
+  ],
+  [SessionState.AboveThreshold]: [SessionState.RevealRequested, SessionState.Cancelled],
+  [SessionState.RevealRequested]: [SessionState.Revealed, SessionState.AboveThreshold],
+  [SessionState.Revealed]: [],
+  [SessionState.Cancelled]: [],
+  [SessionState.BelowThreshold]: [],
+};
+
+// Whether a session in `from` can still get to one of `targets`
+export function canReachState(from: SessionState, targets: SessionState[]): boolean {
+  const seen = new Set<SessionState>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    if (targets.includes(state)) return true;
+    for (const next of NEXT_STATES[state]) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return false;
+}
+
+export async function getSession(contract: Contract, sessionId: bigint): Promise<AnalysisSession> {
+  const s = await contract.analysisSessions(sessionId);
+  return {
+    id: s.id,
+    creator: s.creator,
+    matrixSize: s.matrixSize,
+    matrixVersion: s.matrixVersion,
+    windowStart: s.windowStart,
+    windowEnd: s.windowEnd,
+    state: Number(s.state) as SessionState,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+  };
+}
+
+export async function createSession(
+  contract: Contract,
+  windowStart: bigint | number,
+  windowEnd: bigint | number,
+): Promise<{ sessionId: bigint; receipt: ContractTransactionReceipt }> {
+  const tx = await contract.createAnalysisSession(windowStart, windowEnd);
+  const receipt: ContractTransactionReceipt | null = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+
+  const event = receipt.logs
+    .map((log) => contract.interface.parseLog(log))
+    .find((parsed) => parsed?.name === "AnalysisSessionCreated");
+  if (!event) {
+    throw new Error(`No AnalysisSessionCreated event in ${receipt.hash}`);
+  }
+  return { sessionId: event.args.sessionId as bigint, receipt };
+}
+
+/**
+ * Polls a session until it reaches `target` (or any of several targets). Fails early once the
+ * session is in a state from which no target can be reached any more: a different final state,
+ * or a stage past the target.
+ */
+export async function waitForSessionState(
+  contract: Contract,
+  sessionId: bigint,
+  target: SessionState | SessionState[],
+  { timeoutMs = 5 * 60_000, pollIntervalMs = 4_000 }: WaitOptions = {},
+): Promise<AnalysisSession> {
+  const targets = Array.isArray(target) ? target : [target];
+  const wanted = targets.map((state) => SessionState[state]).join(" or ");
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const session = await getSession(contract, sessionId);
+    if (targets.includes(session.state)) {
+      return session;
+    }
+    if (!canReachState(session.state, targets)) {
+      throw new Error(`Session ${sessionId} is ${SessionState[session.state]} and can not reach ${wanted}`);
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Timed out waiting for session ${sessionId} to reach ${wanted} (currently ${SessionState[session.state]})`,
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+}
@@ -0,0 +1,210 @@
+// src/transactions.ts
+import { Contract, ContractTransactionReceipt, Signer, TransactionReceipt, hexlify } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/node";
+
+// Anything able to build encrypted inputs: a relayer-sdk instance or the hardhat `fhevm` mock
+export type EncryptedInputFactory = Pick<FhevmInstance, "createEncryptedInput">;
+
+// Mirrors InsiderRingAnalysis.TradeSide
+export enum TradeSide {
+  Buy = 0,
+  Sell = 1,
+}
+
+// Mirrors InsiderRingAnalysis.InstrumentType
+export enum InstrumentType {
+  Equity = 0,
+  Bond = 1,
+  Option = 2,
+  Future = 3,
+  Other = 4,
+}
+
+export interface PlainTransaction {
+  traderId: number | bigint;
+  counterparty: number | bigint;
+  security: number | bigint;
+  // Notional and price in the smallest currency unit (e.g. cents), up to 64 bits
+  amount: number | bigint;
+  // Unix seconds, up to 64 bits
+  timestamp: number | bigint;
+  price: number | bigint;
+  side: TradeSide;
+  instrumentType: InstrumentType;
+}
+
+export interface EncryptedTransactionInput {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface SubmittedTransaction {
+  id: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface SubmittedBatch {
+  firstId: bigint;
+  lastId: bigint;
+  receipt: TransactionReceipt;
+}
+
+// Bits a single encrypted input (and therefore one input proof) can carry
+export const MAX_INPUT_BITS = 2048;
+// Encrypted fields per transaction, in ExternalTransaction order:
+// traderId, counterparty, security (32 bits), amount, timestamp, price (64 bits), side, instrumentType (8 bits)
+export const TRANSACTION_FIELDS = 8;
+export const TRANSACTION_BITS = 3 * 32 + 3 * 64 + 2 * 8;
+export const MAX_TRANSACTIONS_PER_PROOF = Math.floor(MAX_INPUT_BITS / TRANSACTION_BITS);
+
+// Accepts "buy"/"sell" (any case), "b"/"s" or the numeric values
+export function parseTradeSide(value: string): TradeSide {
+  switch (value.trim().toLowerCase()) {
+    case "buy":
+    case "b":
+    case "0":
+      return TradeSide.Buy;
+    case "sell":
+    case "s":
+    case "1":
+      return TradeSide.Sell;
+    default:
+      throw new Error(`Unknown trade side "${value}"`);
+  }
+}
+
+// Accepts the enum names (any case) or the numeric values
+export function parseInstrumentType(value: string): InstrumentType {
+  const key = value.trim().toLowerCase();
+  const types = Object.values(InstrumentType).filter((type): type is InstrumentType => typeof type === "number");
+  const match = types.find((type) => InstrumentType[type].toLowerCase() === key || String(type) === key);
+  if (match === undefined) {
+    throw new Error(`Unknown instrument type "${value}"`);
+  }
+  return match;
+}
+
+// Encrypts the eight transaction fields in a single input so they share one proof
+export async function encryptTransaction(
+  fhevm: EncryptedInputFactory,
+  contractAddress: string,
+  brokerAddress: string,
+  trade: PlainTransaction,
+): Promise<EncryptedTransactionInput> {
+  return encryptTransactions(fhevm, contractAddress, brokerAddress, [trade]);
+}
+
+// Encrypts several transactions into one input; handles come back eight per trade, in order
+export async function encryptTransactions(
+  fhevm: EncryptedInputFactory,
+  contractAddress: string,
+  brokerAddress: string,
+  trades: PlainTransaction[],
+): Promise<EncryptedTransactionInput> {
+  if (trades.length === 0 || trades.length > MAX_TRANSACTIONS_PER_PROOF) {
+    throw new Error(`Expected 1 to ${MAX_TRANSACTIONS_PER_PROOF} transactions per proof, got ${trades.length}`);
+  }
+
+  const input = fhevm.createEncryptedInput(contractAddress, brokerAddress);
+  for (const trade of trades) {
+    input
+      .add32(trade.traderId)
+      .add32(trade.counterparty)
+      .add32(trade.security)
+      .add64(trade.amount)
+      .add64(trade.timestamp)
+      .add64(trade.price)
+      .add8(trade.side)
+      .add8(trade.instrumentType);
+  }
+  const encrypted = await input.encrypt();
+
+  return {
+    handles: encrypted.handles.map((handle) => hexlify(handle)),
+    inputProof: hexlify(encrypted.inputProof),
+  };
+}
+
+// Groups flat handles into the ExternalTransaction tuples expected by submitEncryptedTransactionBatch
+export function toExternalTransactions(handles: string[]): string[][] {
+  const tuples: string[][] = [];
+  for (let i = 0; i < handles.length; i += TRANSACTION_FIELDS) {
+    tuples.push(handles.slice(i, i + TRANSACTION_FIELDS));
+  }
+  return tuples;
+}
+
+export async function getBrokerAddress(contract: Contract): Promise<string> {
+  const broker = contract.runner as Signer | null;
+  if (!broker || typeof broker.getAddress !== "function") {
+    throw new Error("Contract must be connected to a broker signer");
+  }
+  return broker.getAddress();
+}
+
+function findEvent(contract: Contract, receipt: TransactionReceipt, name: string) {
+  const event = receipt.logs.map((log) => contract.interface.parseLog(log)).find((parsed) => parsed?.name === name);
+  if (!event) {
+    throw new Error(`No ${name} event in ${receipt.hash}`);
+  }
+  return event;
+}
+
+export async function submitEncryptedTransaction(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  trade: PlainTransaction,
+): Promise<SubmittedTransaction> {
+  const contractAddress = await contract.getAddress();
+  const { handles, inputProof } = await encryptTransaction(
+    fhevm,
+    contractAddress,
+    await getBrokerAddress(contract),
+    trade,
+  );
+
+  const tx = await contract.submitEncryptedTransaction(...handles, inputProof);
+  const receipt: ContractTransactionReceipt | null = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+
+  const event = findEvent(contract, receipt, "TransactionSubmitted");
+  return { id: event.args.id as bigint, receipt };
+}
+
+export async function submitEncryptedTransactionBatch(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  trades: PlainTransaction[],
+): Promise<SubmittedBatch> {
+  const contractAddress = await contract.getAddress();
+  const encrypted = await encryptTransactions(fhevm, contractAddress, await getBrokerAddress(contract), trades);
+  return sendEncryptedTransactionBatch(contract, encrypted);
+}
+
+// Submits an already encrypted batch, e.g. after its gas has been estimated
+export async function sendEncryptedTransactionBatch(
+  contract: Contract,
+  { handles, inputProof }: EncryptedTransactionInput,
+): Promise<SubmittedBatch> {
+  const tx = await contract.submitEncryptedTransactionBatch(toExternalTransactions(handles), inputProof);
+  const receipt: ContractTransactionReceipt | null = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+
+  return parseBatchReceipt(contract, receipt);
+}
+
+export function parseBatchReceipt(contract: Contract, receipt: TransactionReceipt): SubmittedBatch {
+  const event = findEvent(contract, receipt, "TransactionBatchSubmitted");
+  return { firstId: event.args.firstId as bigint, lastId: event.args.lastId as bigint, receipt };
+}
+
+export async function estimateEncryptedTransactionBatch(
+  contract: Contract,
+  { handles, inputProof }: EncryptedTransactionInput,
+): Promise<bigint> {
+  return contract.submitEncryptedTransactionBatch.estimateGas(toExternalTransactions(handles), inputProof);
+}
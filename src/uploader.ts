@@ -0,0 +1,202 @@
+// src/uploader.ts
+import fs from "fs";
+import { Contract, ContractTransactionResponse, id } from "ethers";
+import { readCsv, requireField } from "./csv";
+import {
+  EncryptedInputFactory,
+  InstrumentType,
+  MAX_TRANSACTIONS_PER_PROOF,
+  PlainTransaction,
+  TradeSide,
+  encryptTransactions,
+  estimateEncryptedTransactionBatch,
+  getBrokerAddress,
+  parseBatchReceipt,
+  parseInstrumentType,
+  parseTradeSide,
+  toExternalTransactions,
+} from "./transactions";
+
+export interface UploadedBatch {
+  firstId: string;
+  lastId: string;
+  txHash: string;
+}
+
+// Persisted between runs so an interrupted upload resumes after the last confirmed chunk
+export interface UploadCheckpoint {
+  fingerprint: string;
+  confirmedTrades: number;
+  batches: UploadedBatch[];
+  pending?: { txHash: string; trades: number };
+}
+
+export interface UploadProgress {
+  confirmed: number;
+  total: number;
+  batch?: UploadedBatch;
+}
+
+export interface UploadOptions {
+  checkpointFile: string;
+  maxBatchSize?: number;
+  // Share of the latest block gas limit a single chunk may use
+  gasBudgetRatio?: number;
+  // How long to wait for a chunk left pending by a previous run
+  pendingTimeoutMs?: number;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export const TRADE_FILE_COLUMNS = [
+  "traderId",
+  "counterparty",
+  "security",
+  "amount",
+  "timestamp",
+  "price",
+  "side",
+  "instrumentType",
+] as const;
+
+// Reads a trade file with the columns in TRADE_FILE_COLUMNS
+export function readTradeFile(file: string): PlainTransaction[] {
+  return readCsv(file).map((row) => ({
+    traderId: BigInt(requireField(row, "traderId")),
+    counterparty: BigInt(requireField(row, "counterparty")),
+    security: BigInt(requireField(row, "security")),
+    amount: BigInt(requireField(row, "amount")),
+    timestamp: BigInt(requireField(row, "timestamp")),
+    price: BigInt(requireField(row, "price")),
+    side: parseTradeSide(requireField(row, "side")),
+    instrumentType: parseInstrumentType(requireField(row, "instrumentType")),
+  }));
+}
+
+// Writes trades in the layout readTradeFile expects
+export function writeTradeFile(file: string, trades: PlainTransaction[]) {
+  const rows = trades.map((trade) =>
+    [
+      trade.traderId,
+      trade.counterparty,
+      trade.security,
+      trade.amount,
+      trade.timestamp,
+      trade.price,
+      TradeSide[trade.side].toLowerCase(),
+      InstrumentType[trade.instrumentType].toLowerCase(),
+    ].join(","),
+  );
+  fs.writeFileSync(file, [TRADE_FILE_COLUMNS.join(","), ...rows].join("\n") + "\n");
+}
+
+export function fingerprintTrades(trades: PlainTransaction[]): string {
+  return id(JSON.stringify(trades, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+function loadCheckpoint(file: string, fingerprint: string): UploadCheckpoint {
+  if (!fs.existsSync(file)) {
+    return { fingerprint, confirmedTrades: 0, batches: [] };
+  }
+  const checkpoint = JSON.parse(fs.readFileSync(file, "utf8")) as UploadCheckpoint;
+  if (checkpoint.fingerprint !== fingerprint) {
+    throw new Error(`Checkpoint ${file} belongs to a different trade file`);
+  }
+  return checkpoint;
+}
+
+function saveCheckpoint(file: string, checkpoint: UploadCheckpoint) {
+  fs.writeFileSync(file, JSON.stringify(checkpoint, null, 2));
+}
+
+function confirmBatch(checkpoint: UploadCheckpoint, trades: number, batch: UploadedBatch) {
+  checkpoint.confirmedTrades += trades;
+  checkpoint.batches.push(batch);
+  delete checkpoint.pending;
+}
+
+// Settles a chunk that was sent but not confirmed before the previous run stopped
+async function settlePending(contract: Contract, checkpoint: UploadCheckpoint, timeoutMs: number) {
+  const pending = checkpoint.pending;
+  if (!pending) return;
+
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract runner has no provider");
+  }
+
+  const receipt =
+    (await provider.getTransactionReceipt(pending.txHash)) ??
+    (await provider.waitForTransaction(pending.txHash, 1, timeoutMs));
+  if (receipt && receipt.status === 1) {
+    const { firstId, lastId } = parseBatchReceipt(contract, receipt);
+    confirmBatch(checkpoint, pending.trades, {
+      firstId: firstId.toString(),
+      lastId: lastId.toString(),
+      txHash: pending.txHash,
+    });
+  } else {
+    delete checkpoint.pending;
+  }
+}
+
+/**
+ * Uploads trades in chunks that each fit in one input proof and under the gas budget.
+ * Progress is checkpointed after every confirmed chunk; rerunning with the same
+ * checkpoint file continues where the previous run stopped.
+ */
+export async function uploadTrades(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  trades: PlainTransaction[],
+  options: UploadOptions,
+): Promise<UploadCheckpoint> {
+  const checkpoint = loadCheckpoint(options.checkpointFile, fingerprintTrades(trades));
+  await settlePending(contract, checkpoint, options.pendingTimeoutMs ?? 120_000);
+  saveCheckpoint(options.checkpointFile, checkpoint);
+
+  const provider = contract.runner?.provider;
+  const latest = provider ? await provider.getBlock("latest") : null;
+  if (!latest) {
+    throw new Error("Unable to read the latest block");
+  }
+  const gasBudget = (latest.gasLimit * BigInt(Math.round((options.gasBudgetRatio ?? 0.5) * 100))) / 100n;
+
+  const contractAddress = await contract.getAddress();
+  const brokerAddress = await getBrokerAddress(contract);
+  let batchSize = Math.min(options.maxBatchSize ?? MAX_TRANSACTIONS_PER_PROOF, MAX_TRANSACTIONS_PER_PROOF);
+
+  while (checkpoint.confirmedTrades < trades.length) {
+    const chunk = trades.slice(checkpoint.confirmedTrades, checkpoint.confirmedTrades + batchSize);
+    const encrypted = await encryptTransactions(fhevm, contractAddress, brokerAddress, chunk);
+
+    const gas = await estimateEncryptedTransactionBatch(contract, encrypted);
+    if (gas > gasBudget) {
+      if (chunk.length === 1) {
+        throw new Error(`A single trade needs ${gas} gas, above the budget of ${gasBudget}`);
+      }
+      batchSize = Math.ceil(chunk.length / 2);
+      continue;
+    }
+
+    const tx: ContractTransactionResponse = await contract.submitEncryptedTransactionBatch(
+      toExternalTransactions(encrypted.handles),
+      encrypted.inputProof,
+      { gasLimit: gas + gas / 5n },
+    );
+    checkpoint.pending = { txHash: tx.hash, trades: chunk.length };
+    saveCheckpoint(options.checkpointFile, checkpoint);
+
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    const { firstId, lastId } = parseBatchReceipt(contract, receipt);
+    const batch = { firstId: firstId.toString(), lastId: lastId.toString(), txHash: tx.hash };
+    confirmBatch(checkpoint, chunk.length, batch);
+    saveCheckpoint(options.checkpointFile, checkpoint);
+
+    options.onProgress?.({ confirmed: checkpoint.confirmedTrades, total: trades.length, batch });
+  }
+
+  return checkpoint;
+}
@@ -0,0 +1,56 @@
+// src/volumeBaselines.ts
+import { Contract, ContractTransactionReceipt, Signer, hexlify } from "ethers";
+import { readCsv, requireField } from "./csv";
+import { EncryptedInputFactory, MAX_INPUT_BITS } from "./transactions";
+
+export interface PlainVolumeBaseline {
+  securityId: number;
+  // Volume the security is expected to trade per time bucket; more than this is a spike
+  baseline: bigint;
+}
+
+export const MAX_BASELINES_PER_PROOF = MAX_INPUT_BITS / 64;
+
+const UINT32_MAX = 2 ** 32 - 1;
+
+// Reads a baseline file with the columns security and baseline
+export function readVolumeBaselines(file: string): PlainVolumeBaseline[] {
+  return readCsv(file).map((row) => {
+    const value = requireField(row, "security");
+    const securityId = Number(value);
+    if (!Number.isInteger(securityId) || securityId < 0 || securityId > UINT32_MAX) {
+      throw new Error(`security must be an unsigned 32-bit integer, got "${value}"`);
+    }
+    return { securityId, baseline: BigInt(requireField(row, "baseline")) };
+  });
+}
+
+/**
+ * Encrypts per-bucket volume baselines as the regulator's input and sets them for their
+ * securities. Like watch list entries, the baselines can be compared against on chain but
+ * not decrypted, not even by the uploading regulator.
+ */
+export async function setVolumeBaselines(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  baselines: PlainVolumeBaseline[],
+): Promise<ContractTransactionReceipt> {
+  if (baselines.length === 0 || baselines.length > MAX_BASELINES_PER_PROOF) {
+    throw new Error(`Expected 1 to ${MAX_BASELINES_PER_PROOF} baselines per proof, got ${baselines.length}`);
+  }
+  const regulator = contract.runner as Signer | null;
+  if (!regulator || typeof regulator.getAddress !== "function") {
+    throw new Error("Contract must be connected to a regulator signer");
+  }
+
+  const input = fhevm.createEncryptedInput(await contract.getAddress(), await regulator.getAddress());
+  for (const { baseline } of baselines) input.add64(baseline);
+  const encrypted = await input.encrypt();
+  const tuples = baselines.map(({ securityId }, i) => [securityId, hexlify(encrypted.handles[i])]);
+  const tx = await contract.setVolumeBaselines(tuples, hexlify(encrypted.inputProof));
+  const receipt: ContractTransactionReceipt | null = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
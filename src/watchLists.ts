@@ -0,0 +1,119 @@
+// src/watchLists.ts
+import { Contract, ContractTransactionReceipt, Signer, hexlify } from "ethers";
+import { readCsv, requireField } from "./csv";
+import { EncryptedInputFactory, MAX_INPUT_BITS } from "./transactions";
+
+// Mirrors InsiderRingAnalysis.WatchListKind
+export enum WatchListKind {
+  Securities = 0,
+  Traders = 1,
+}
+
+// Entries a single watch list can hold on chain (MAX_WATCH_LIST_SIZE)
+export const MAX_WATCH_LIST_SIZE = 32;
+export const MAX_ENTRIES_PER_PROOF = MAX_INPUT_BITS / 32;
+
+export interface WatchListSizes {
+  securities: number;
+  traders: number;
+  version: bigint;
+}
+
+const UINT32_MAX = 2 ** 32 - 1;
+
+async function waitFor(tx: { hash: string; wait(): Promise<ContractTransactionReceipt | null> }) {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
+
+// Accepts "securities"/"traders", their singulars or the numeric values
+export function parseWatchListKind(value: string): WatchListKind {
+  switch (value.trim().toLowerCase()) {
+    case "securities":
+    case "security":
+    case "0":
+      return WatchListKind.Securities;
+    case "traders":
+    case "trader":
+    case "1":
+      return WatchListKind.Traders;
+    default:
+      throw new Error(`Unknown watch list "${value}"`);
+  }
+}
+
+/**
+ * Reads a watch list CSV with a single column `id`: security IDs for a restricted list,
+ * trader pseudonyms for an insider watch list.
+ */
+export function readWatchList(file: string): number[] {
+  return readCsv(file).map((row) => {
+    const value = requireField(row, "id");
+    const id = Number(value);
+    if (!Number.isInteger(id) || id < 0 || id > UINT32_MAX) {
+      throw new Error(`id must be an unsigned 32-bit integer, got "${value}"`);
+    }
+    return id;
+  });
+}
+
+/**
+ * Encrypts `ids` as the regulator's input and appends them to a watch list. The contract
+ * keeps the entries to itself: not even the uploading regulator can decrypt them afterwards.
+ */
+export async function addWatchListEntries(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  kind: WatchListKind,
+  ids: number[],
+): Promise<ContractTransactionReceipt> {
+  if (ids.length === 0 || ids.length > MAX_ENTRIES_PER_PROOF) {
+    throw new Error(`Expected 1 to ${MAX_ENTRIES_PER_PROOF} entries per proof, got ${ids.length}`);
+  }
+  const regulator = contract.runner as Signer | null;
+  if (!regulator || typeof regulator.getAddress !== "function") {
+    throw new Error("Contract must be connected to a regulator signer");
+  }
+
+  const input = fhevm.createEncryptedInput(await contract.getAddress(), await regulator.getAddress());
+  for (const id of ids) input.add32(id);
+  const encrypted = await input.encrypt();
+  return waitFor(
+    await contract.addWatchListEntries(kind, encrypted.handles.map(hexlify), hexlify(encrypted.inputProof)),
+  );
+}
+
+export async function clearWatchList(contract: Contract, kind: WatchListKind): Promise<ContractTransactionReceipt> {
+  return waitFor(await contract.clearWatchList(kind));
+}
+
+/**
+ * Replaces a watch list with `ids`. The list is cleared first, so running scans have to be
+ * restarted either way.
+ */
+export async function replaceWatchList(
+  fhevm: EncryptedInputFactory,
+  contract: Contract,
+  kind: WatchListKind,
+  ids: number[],
+): Promise<void> {
+  if (ids.length > MAX_WATCH_LIST_SIZE) {
+    throw new Error(`A watch list holds at most ${MAX_WATCH_LIST_SIZE} entries, got ${ids.length}`);
+  }
+  await clearWatchList(contract, kind);
+  for (let i = 0; i < ids.length; i += MAX_ENTRIES_PER_PROOF) {
+    await addWatchListEntries(fhevm, contract, kind, ids.slice(i, i + MAX_ENTRIES_PER_PROOF));
+  }
+}
+
+export async function getWatchListSizes(contract: Contract): Promise<WatchListSizes> {
+  const [securities, traders, version] = await Promise.all([
+    contract.getWatchListSize(WatchListKind.Securities),
+    contract.getWatchListSize(WatchListKind.Traders),
+    contract.watchListVersion(),
+  ]);
+  return { securities: Number(securities), traders: Number(traders), version };
+}
@@ -0,0 +1,125 @@
+// tasks/benchmark.ts
+import { Contract } from "ethers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Measurement, measure, seededRandom, sumMeasurements } from "../src/benchmark";
+import { GraphMode, initializeMatrix } from "../src/matrix";
+import { ROLES } from "../src/roles";
+import {
+  InstrumentType,
+  MAX_TRANSACTIONS_PER_PROOF,
+  PlainTransaction,
+  TradeSide,
+  submitEncryptedTransactionBatch,
+} from "../src/transactions";
+import { deployAnalysisContract } from "./utils";
+
+const GRAPH_MODES = { dense: GraphMode.Dense, sparse: GraphMode.Sparse } as const;
+
+// One trade per ordered pair of distinct nodes, kept with probability `density`
+function randomTrades(nodeTraderIds: number[], density: number, seed: number): PlainTransaction[] {
+  const random = seededRandom(seed);
+  const trades: PlainTransaction[] = [];
+  for (const from of nodeTraderIds) {
+    for (const to of nodeTraderIds) {
+      if (from !== to && random() < density) {
+        trades.push({
+          traderId: from,
+          counterparty: to,
+          security: 1 + Math.floor(random() * 10),
+          amount: 1 + Math.floor(random() * 10_000),
+          timestamp: 1_700_000_000 + Math.floor(random() * 86_400),
+          price: 100 + Math.floor(random() * 10_000),
+          side: random() < 0.5 ? TradeSide.Buy : TradeSide.Sell,
+          instrumentType: InstrumentType.Equity,
+        });
+      }
+    }
+  }
+  return trades;
+}
+
+async function runMode(
+  hre: HardhatRuntimeEnvironment,
+  mode: keyof typeof GRAPH_MODES,
+  nodeTraderIds: number[],
+  trades: PlainTransaction[],
+): Promise<Measurement[]> {
+  const contract: Contract = await deployAnalysisContract(hre);
+  const [signer] = await hre.ethers.getSigners();
+  await (await contract.grantRole(ROLES.broker, signer.address)).wait();
+
+  for (let i = 0; i < trades.length; i += MAX_TRANSACTIONS_PER_PROOF) {
+    await submitEncryptedTransactionBatch(hre.fhevm, contract, trades.slice(i, i + MAX_TRANSACTIONS_PER_PROOF));
+  }
+
+  if (mode === "dense") {
+    await initializeMatrix(contract, nodeTraderIds.length);
+  } else {
+    await (await contract.setGraphMode(GRAPH_MODES.sparse)).wait();
+  }
+  await (await contract.setNodeIndexTable(nodeTraderIds)).wait();
+
+  const results: Measurement[] = [];
+  if (trades.length > 0) {
+    await (await contract.startMatrixBuild(1, trades.length)).wait();
+    // One transaction per chunk in either mode
+    const cellsPerTrade = mode === "dense" ? nodeTraderIds.length ** 2 : 1;
+    const chunks: Measurement[] = [];
+    while ((await contract.matrixBuild()).active) {
+      chunks.push(await measure(hre.fhevm, "build", contract.processMatrixBuild(cellsPerTrade)));
+    }
+    results.push(sumMeasurements(`${mode}: build graph`, chunks));
+  }
+
+  results.push(await measure(hre.fhevm, `${mode}: reachability`, contract.computeReachability(0, 2)));
+
+  await (await contract.createAnalysisSession(0, Math.floor(Date.now() / 1000))).wait();
+  const sessionId = await contract.sessionCount();
+  await (await contract.startRingDetection(sessionId)).wait();
+  results.push(await measure(hre.fhevm, `${mode}: short cycles`, contract.detectShortCycles(sessionId)));
+
+  return results;
+}
+
+/**
+ * Example:
+ *   npx hardhat node
+ *   npx hardhat --network localhost task:benchmark-graph --nodes 6 --densities 0.05,0.15,0.3
+ *
+ * Runs against the local mock node only: HCU figures add up the FHE operations the mock coprocessor
+ * records, priced per operand type with the fhEVM HCU table (HCU_PRICES). Operations the table does
+ * not cover are reported in the `unpriced` column instead.
+ */
+task("task:benchmark-graph", "Compares gas and HCU of the dense and sparse graph modes")
+  .addOptionalParam("nodes", "Number of traders in the graph", "6")
+  .addOptionalParam("densities", "Comma separated edge densities to test", "0.05,0.15,0.3")
+  .addOptionalParam("seed", "Random seed", "1")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    if (!hre.fhevm.isMock) {
+      throw new Error("task:benchmark-graph only runs on the hardhat mock network");
+    }
+
+    const nodeTraderIds = Array.from({ length: parseInt(args.nodes) }, (_, i) => 100 + i);
+    const rows = [];
+
+    for (const density of String(args.densities).split(",").map(Number)) {
+      const trades = randomTrades(nodeTraderIds, density, parseInt(args.seed));
+      for (const mode of Object.keys(GRAPH_MODES) as (keyof typeof GRAPH_MODES)[]) {
+        for (const m of await runMode(hre, mode, nodeTraderIds, trades)) {
+          rows.push({
+            density,
+            edges: trades.length,
+            step: m.label,
+            gas: m.gasUsed.toString(),
+            fheOps: m.totalOperations,
+            hcu: m.hcu,
+            unpriced: m.unpricedOperations,
+          });
+        }
+      }
+    }
+
+    console.table(rows);
+  });
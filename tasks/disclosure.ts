@@ -0,0 +1,179 @@
+// tasks/disclosure.ts
+import fs from "fs";
+import { task } from "hardhat/config";
+import {
+  DEFAULT_REVEAL_THRESHOLD,
+  REVEAL_STAGES,
+  DecryptionStatus,
+  approveMemberReveal,
+  cancelDecryption,
+  getDecryptionRequest,
+  getLatestDecryptionRequest,
+  getRevealApprovals,
+  justificationHash,
+  requestThresholdCheck,
+  retryDecryption,
+  setDecryptionTimeout,
+  setRevealQuorum,
+  setRevealThreshold,
+  waitForMemberReveal,
+  waitForThresholdCheck,
+} from "../src/disclosure";
+import { SessionState, getSession } from "../src/sessions";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:set-reveal-threshold --address 0x... --threshold 80
+ */
+task("task:set-reveal-threshold", "Sets the risk score an analysis must reach to reveal its members (admin only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addOptionalParam("threshold", "Minimum risk score", String(DEFAULT_REVEAL_THRESHOLD))
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const receipt = await setRevealThreshold(contract, parseInt(args.threshold));
+    console.log(`Reveal threshold set to ${args.threshold} (tx: ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:set-reveal-quorum --address 0x... --quorum 3 --window 86400
+ */
+task("task:set-reveal-quorum", "Sets how many regulators must approve a member reveal (admin only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("quorum", "Regulator approvals required")
+  .addOptionalParam("window", "Seconds a round of approvals stays open", String(3 * 24 * 60 * 60))
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const receipt = await setRevealQuorum(contract, parseInt(args.quorum), parseInt(args.window));
+    console.log(`Reveal quorum set to ${args.quorum} within ${args.window}s (tx: ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:approve-reveal --address 0x... --session 1 --justification case-1.pdf
+ *   npx hardhat --network sepolia task:approve-reveal --address 0x... --session 1 --hash 0x...
+ *
+ * Records the signer's approval, with the hash of the justification document, to decrypt the
+ * ring members of a session above the reveal threshold.
+ */
+task("task:approve-reveal", "Approves decrypting the ring members of a session (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addOptionalParam("justification", "Justification document to hash")
+  .addOptionalParam("hash", "Precomputed 32-byte justification hash")
+  .setAction(async (args, hre) => {
+    if (!args.justification === !args.hash) {
+      throw new Error("Pass exactly one of --justification or --hash");
+    }
+    const contract = await getAnalysisContract(hre, args.address);
+    const sessionId = BigInt(args.session);
+    const hash = args.hash ?? justificationHash(fs.readFileSync(args.justification));
+
+    const approval = await approveMemberReveal(contract, sessionId, hash);
+    console.log(
+      `Approved session ${sessionId} with justification ${approval.justificationHash}: ` +
+        `${approval.approvals}/${approval.quorum} approvals (tx: ${approval.receipt.hash})`,
+    );
+    if (approval.quorumReached) {
+      console.log("Quorum reached, ring members are being decrypted");
+    }
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:reveal --address 0x... --session 1
+ *
+ * Runs the next reveal stage of a session: the threshold check for a completed session, or
+ * waits for the member decryption once the regulator quorum has approved it.
+ */
+task("task:reveal", "Advances a session through the two-stage reveal")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const sessionId = BigInt(args.session);
+    // The mock oracle only answers when asked to
+    const settle = async () => {
+      if (hre.fhevm.isMock) await hre.fhevm.awaitDecryptionOracle();
+    };
+
+    let session = await getSession(contract, sessionId);
+    if (session.state === SessionState.Completed) {
+      await requestThresholdCheck(contract, sessionId);
+      await settle();
+      const { aboveThreshold } = await waitForThresholdCheck(contract, sessionId);
+      console.log(`Session ${sessionId} is ${aboveThreshold ? "above" : "below"} the reveal threshold`);
+      session = await getSession(contract, sessionId);
+    }
+    if (session.state === SessionState.AboveThreshold) {
+      const { approvals, quorum, open, expiresAt } = await getRevealApprovals(contract, sessionId);
+      const round = open ? `, round open until ${new Date(expiresAt * 1000).toISOString()}` : "";
+      console.log(`Session ${sessionId} awaits regulator approval: ${approvals}/${quorum} approvals${round}`);
+      return;
+    }
+    if (session.state === SessionState.RevealRequested) {
+      const request = await getLatestDecryptionRequest(contract, sessionId);
+      if (request) {
+        console.log(
+          `Decryption request ${request.requestId} due by ${new Date(request.deadline * 1000).toISOString()}`,
+        );
+      }
+      await settle();
+      const { ringMembers, riskScore } = await waitForMemberReveal(contract, sessionId);
+      console.log(`Session ${sessionId} revealed: risk score ${riskScore}, ring members [${ringMembers.join(", ")}]`);
+      return;
+    }
+    console.log(`Session ${sessionId}: ${REVEAL_STAGES[session.state]}`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:set-decryption-timeout --address 0x... --timeout 3600
+ */
+task("task:set-decryption-timeout", "Sets how long a decryption may stay pending before it can be retried (admin only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("timeout", "Seconds")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const receipt = await setDecryptionTimeout(contract, parseInt(args.timeout));
+    console.log(`Decryption timeout set to ${args.timeout}s (tx: ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:retry-decryption --address 0x... --request 12
+ *
+ * Re-requests a decryption the oracle has not answered by its deadline.
+ */
+task("task:retry-decryption", "Re-requests a timed out decryption (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("request", "Decryption request id")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const request = await getDecryptionRequest(contract, BigInt(args.request));
+    if (request.status !== DecryptionStatus.Pending) {
+      throw new Error(`Request ${args.request} is ${DecryptionStatus[request.status]}`);
+    }
+    const retryRequestId = await retryDecryption(contract, request.requestId);
+    console.log(`Request ${request.requestId} for session ${request.sessionId} re-requested as ${retryRequestId}`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:cancel-decryption --address 0x... --request 12
+ *
+ * The requester may cancel at any time, other regulators once the request has timed out.
+ */
+task("task:cancel-decryption", "Cancels a pending decryption (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("request", "Decryption request id")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const request = await getDecryptionRequest(contract, BigInt(args.request));
+    const receipt = await cancelDecryption(contract, request.requestId);
+    const session = await getSession(contract, request.sessionId);
+    console.log(
+      `Cancelled request ${request.requestId}; session ${request.sessionId} is ${REVEAL_STAGES[session.state]} (tx: ${receipt.hash})`,
+    );
+  });
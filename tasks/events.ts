@@ -0,0 +1,40 @@
+// tasks/events.ts
+import { task } from "hardhat/config";
+import { EventDirection, getCorporateEvents, readEventCalendar, registerCorporateEvents } from "../src/corporateEvents";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:import-events --address 0x... --file calendar.csv
+ *
+ * The CSV needs the columns securityId,announcementTime,direction, for example:
+ *   securityId,announcementTime,direction
+ *   42,2025-03-14T13:30:00Z,positive
+ *   7,1741959000,down
+ */
+task("task:import-events", "Registers the corporate events of a CSV event calendar (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("file", "CSV with columns securityId,announcementTime,direction")
+  .addOptionalParam("batchSize", "Events registered per transaction", "50")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const events = readEventCalendar(args.file);
+    const batchSize = parseInt(args.batchSize);
+
+    for (let i = 0; i < events.length; i += batchSize) {
+      const { firstId, lastId, receipt } = await registerCorporateEvents(contract, events.slice(i, i + batchSize));
+      console.log(`Registered events ${firstId}-${lastId} (tx: ${receipt.hash})`);
+    }
+    console.log(`Imported ${events.length} events from ${args.file}`);
+  });
+
+task("task:events", "Lists the registered corporate events")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    for (const event of await getCorporateEvents(contract)) {
+      const when = new Date(event.announcementTime * 1000).toISOString();
+      const status = event.active ? "" : " (retired)";
+      console.log(`#${event.id} security ${event.securityId} at ${when}, ${EventDirection[event.direction]}${status}`);
+    }
+  });
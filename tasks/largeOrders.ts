@@ -0,0 +1,33 @@
+// tasks/largeOrders.ts
+import { task } from "hardhat/config";
+import { MAX_LARGE_ORDERS_PER_PROOF, readLargeOrders, submitLargeOrders } from "../src/largeOrders";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:submit-large-orders --address 0x... --file orders.csv
+ *
+ * The CSV needs the columns client, security, timestamp and side, for example:
+ *   client,security,timestamp,side
+ *   1007,42,1717430400,buy
+ */
+task("task:submit-large-orders", "Reports encrypted large client orders for front-running detection (broker only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("file", "CSV with the columns client, security, timestamp and side")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const contract = await getAnalysisContract(hre, args.address);
+    const orders = readLargeOrders(args.file);
+    if (orders.length === 0) {
+      throw new Error(`No orders in ${args.file}`);
+    }
+    for (let i = 0; i < orders.length; i += MAX_LARGE_ORDERS_PER_PROOF) {
+      const { firstId, lastId, receipt } = await submitLargeOrders(
+        hre.fhevm,
+        contract,
+        orders.slice(i, i + MAX_LARGE_ORDERS_PER_PROOF),
+      );
+      console.log(`Submitted large orders ${firstId}-${lastId} (tx: ${receipt.hash})`);
+    }
+  });
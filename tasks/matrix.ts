@@ -0,0 +1,88 @@
+// tasks/matrix.ts
+import { task } from "hardhat/config";
+import {
+  buildMatrixFromTransactions,
+  cancelMatrixBuild,
+  cancelMatrixInitialization,
+  initializeMatrix,
+} from "../src/matrix";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:init-matrix --address 0x... --size 32
+ *
+ * Rerun the same command after a failure to resume the initialization.
+ */
+task("task:init-matrix", "Initializes or resizes the encrypted adjacency matrix in gas-bounded chunks")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("size", "Number of nodes")
+  .addFlag("preserve", "Resize, keeping the cells of nodes present in both sizes")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    await initializeMatrix(contract, parseInt(args.size), {
+      preserve: args.preserve,
+      onProgress: ({ cursor, totalCells, cellsPerChunk }) =>
+        console.log(`Initialized ${cursor}/${totalCells} cells (${cellsPerChunk} per chunk)`),
+    });
+
+    console.log("Matrix initialization complete");
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:build-matrix --address 0x... --nodes 101,102,103 --first 1 --last 500
+ */
+task("task:build-matrix", "Folds submitted transactions into the encrypted adjacency matrix")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("nodes", "Comma separated trader pseudonyms, one per matrix node")
+  .addParam("first", "First transaction ID")
+  .addParam("last", "Last transaction ID")
+  .addOptionalParam("chunk", "Matrix cells per chunk (transactions in sparse mode)", "48")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    await buildMatrixFromTransactions(contract, {
+      nodeTraderIds: String(args.nodes)
+        .split(",")
+        .map((id) => parseInt(id.trim())),
+      firstId: BigInt(args.first),
+      lastId: BigInt(args.last),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ processedUpTo, nextCell, lastId }) =>
+        console.log(`Folded transactions up to ${processedUpTo}/${lastId} (next cell ${nextCell})`),
+    });
+
+    console.log("Matrix build complete");
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:cancel-matrix-init --address 0x...
+ */
+task("task:cancel-matrix-init", "Abandons a pending matrix initialization or resize")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const receipt = await cancelMatrixInitialization(contract);
+    console.log(`Matrix initialization cancelled (tx: ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:cancel-matrix-build --address 0x...
+ *
+ * A build cancelled after its first chunk leaves a partial graph: initialize the matrix again
+ * (or clear the sparse edges) before building or analysing it.
+ */
+task("task:cancel-matrix-build", "Abandons a matrix build")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const receipt = await cancelMatrixBuild(contract);
+    console.log(`Matrix build cancelled (tx: ${receipt.hash})`);
+    if (await contract.matrixPartial()) {
+      console.log("Part of the range was already folded in: reinitialize the matrix before using it");
+    }
+  });
@@ -0,0 +1,340 @@
+// tasks/metrics.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import { GraphMode, getNodeIndex } from "../src/matrix";
+import {
+  computeCentrality,
+  computePageRank,
+  computeSimilarity,
+  computeHopDistance,
+  countTriangles,
+  HopDistanceProgress,
+  decryptHopDistance,
+  decryptNodeMetrics,
+  finishHopDistance,
+  grantHopDistance,
+  grantNodeMetrics,
+  labelComponents,
+  takeGraphSnapshot,
+} from "../src/metrics";
+import { DEFAULT_DAMPING_BPS, PAGERANK_SCALE } from "../src/reference/pagerank";
+import { clusteringCoefficient } from "../src/reference/triangles";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:graph-snapshot --address 0x... --session 1
+ *
+ * Needed once per session in sparse graph mode, before any of the metrics below. Rerun the same
+ * command after a failure to resume the snapshot.
+ */
+task("task:graph-snapshot", "Folds the sparse edges of a running session into the cells its network metrics read")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addOptionalParam("chunk", "Cells folded per on-chain transaction", "48")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    if (Number(await contract.graphMode()) !== GraphMode.Sparse) {
+      console.log("Dense graph mode: the metrics read the adjacency matrix, no snapshot needed");
+      return;
+    }
+
+    await takeGraphSnapshot(contract, BigInt(args.session), {
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ nextEdge, nextCell, edgeCount, nodeCount }) =>
+        console.log(`Folded edge ${nextEdge}/${edgeCount}, cell ${nextCell}/${nodeCount * nodeCount}`),
+    });
+    console.log("Graph snapshot complete");
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:centrality --address 0x... --session 1
+ *
+ * Rerun the same command after a failure to resume the computation.
+ */
+task("task:centrality", "Computes encrypted degree and volume centrality of every node for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addOptionalParam("chunk", "Nodes computed per on-chain transaction", "2")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    await computeCentrality(contract, BigInt(args.session), {
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ processedUpTo, nodeCount }) => console.log(`Computed ${processedUpTo}/${nodeCount} nodes`),
+    });
+    console.log("Centrality computation complete");
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:grant-node-metrics --address 0x... --session 1 --trader 102 --analyst 0x...
+ */
+task("task:grant-node-metrics", "Lets an analyst decrypt the centrality metrics of one trader (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("trader", "Trader pseudonym")
+  .addParam("analyst", "Analyst address")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const node = await getNodeIndex(contract, parseInt(args.trader));
+    const receipt = await grantNodeMetrics(contract, BigInt(args.session), node, args.analyst);
+    console.log(`Granted ${args.analyst} the metrics of trader ${args.trader} (node ${node}, tx: ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:node-metrics --address 0x... --session 1 --trader 102
+ */
+task("task:node-metrics", "Decrypts the centrality metrics of a trader the signer has been granted")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("trader", "Trader pseudonym")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const [analyst] = await hre.ethers.getSigners();
+    const contract = await getAnalysisContract(hre, args.address);
+    const node = await getNodeIndex(contract, parseInt(args.trader));
+    const metrics = await decryptNodeMetrics(contract, BigInt(args.session), node, (handle, bits) =>
+      hre.fhevm.userDecryptEuint(bits === 32 ? FhevmType.euint32 : FhevmType.euint64, handle, args.address, analyst),
+    );
+    console.log(`Trader ${args.trader} (node ${node}):`);
+    console.log(`  in-degree ${metrics.inDegree}, out-degree ${metrics.outDegree}, reciprocal ${metrics.reciprocity}`);
+    console.log(`  in-volume ${metrics.inVolume}, out-volume ${metrics.outVolume}`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:triangles --address 0x... --session 1
+ *
+ * Rerun the same command after a failure to resume the scan. The signer completing the scan
+ * can decrypt the counts, which are printed when --decrypt is passed.
+ */
+task("task:triangles", "Counts triangles per node and the clustering coefficient for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addOptionalParam("chunk", "Neighbour pairs checked per on-chain transaction", "16")
+  .addFlag("decrypt", "Decrypt and print the counts")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const handles = await countTriangles(contract, BigInt(args.session), {
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ nextI, nodeCount }) => console.log(`Checked the neighbour pairs of ${nextI}/${nodeCount} nodes`),
+    });
+    console.log("Triangle count complete");
+    if (!args.decrypt) return;
+
+    await hre.fhevm.initializeCLIApi();
+    const [regulator] = await hre.ethers.getSigners();
+    const decrypt = async (handle: string) =>
+      Number(await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, args.address, regulator));
+    const triangles: number[] = [];
+    for (const handle of handles.triangles) triangles.push(await decrypt(handle));
+    const counts = {
+      closedTriplets: await decrypt(handles.closedTriplets),
+      connectedTriplets: await decrypt(handles.connectedTriplets),
+    };
+    console.log(`Triangles per node: [${triangles.join(", ")}]`);
+    console.log(
+      `Clustering coefficient: ${counts.closedTriplets}/${counts.connectedTriplets} = ${clusteringCoefficient(counts).toFixed(4)}`,
+    );
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:components --address 0x... --session 1 --rounds 3
+ *
+ * Needs the session's cycles detected first. Rerun the same command after a failure to resume
+ * the labelling; computeRiskScore then scores the largest suspicious component as the ring.
+ * With --similarity N, traders that co-traded in at least N cells of the session's finished
+ * task:similarity scan are joined as if they had traded with each other.
+ */
+task("task:components", "Labels connected components and picks the largest one containing a cycle as the ring")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addOptionalParam("rounds", "Label propagation rounds (defaults to nodes - 1)")
+  .addOptionalParam("similarity", "Minimum shared similarity cells that also link two traders")
+  .addOptionalParam("chunk", "Nodes processed per on-chain transaction", "2")
+  .addFlag("decrypt", "Decrypt and print the labels and the ring")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const handles = await labelComponents(contract, BigInt(args.session), {
+      rounds: args.rounds === undefined ? undefined : parseInt(args.rounds),
+      minSharedCells: args.similarity === undefined ? undefined : parseInt(args.similarity),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ round, next, rounds, nodeCount }) =>
+        console.log(
+          round < rounds
+            ? `Round ${round + 1n}/${rounds}: relabelled ${next}/${nodeCount} nodes`
+            : `Sized ${round > rounds ? nodeCount : next}/${nodeCount} candidate components`,
+        ),
+    });
+    console.log("Component labelling complete");
+    if (!args.decrypt) return;
+
+    await hre.fhevm.initializeCLIApi();
+    const [regulator] = await hre.ethers.getSigners();
+    const decrypt = async (handle: string) =>
+      Number(await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, args.address, regulator));
+    const labels: number[] = [];
+    for (const handle of handles.labels) labels.push(await decrypt(handle));
+    const ring: number[] = [];
+    for (const handle of handles.ring) ring.push(await decrypt(handle));
+    console.log(`Component labels: [${labels.join(", ")}]`);
+    console.log(`Ring members: [${ring.filter((member) => member !== 0).map((member) => member - 1).join(", ")}]`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:pagerank --address 0x... --session 1 --iterations 20
+ *
+ * Needs the session's centrality computed first. Rerun the same command after a failure to
+ * resume the computation.
+ */
+task("task:pagerank", "Computes a fixed-point PageRank influence score of every node for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addOptionalParam("iterations", "Power iterations", "20")
+  .addOptionalParam("damping", "Damping factor in basis points", String(DEFAULT_DAMPING_BPS))
+  .addOptionalParam("chunk", "Steps per on-chain transaction (2 per node and iteration)", "2")
+  .addFlag("decrypt", "Decrypt and print the scores")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const scores = await computePageRank(contract, BigInt(args.session), {
+      iterations: parseInt(args.iterations),
+      dampingBps: parseInt(args.damping),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ iteration, next, iterations, nodeCount }) =>
+        console.log(
+          iteration < iterations
+            ? `Iteration ${iteration + 1n}/${iterations}: step ${next}/${2n * nodeCount}`
+            : `Completed ${iterations} iterations`,
+        ),
+    });
+    console.log("PageRank computation complete");
+    if (!args.decrypt) return;
+
+    await hre.fhevm.initializeCLIApi();
+    const [regulator] = await hre.ethers.getSigners();
+    for (let node = 0; node < scores.length; node++) {
+      const score = await hre.fhevm.userDecryptEuint(FhevmType.euint64, scores[node], args.address, regulator);
+      const traderId = await contract.nodeTraderIds(node);
+      console.log(`Trader ${traderId} (node ${node}): ${(Number(score) / Number(PAGERANK_SCALE)).toFixed(6)}`);
+    }
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:hop-distance --address 0x... --session 1 --from 101 --to 205 --hops 4
+ *
+ * Prints maxHops + 1 when the second trader is further than --hops away or unreachable. After a
+ * failure, pass the printed result id as --result to resume the computation.
+ */
+task("task:hop-distance", "Computes the encrypted shortest-path hop distance from one trader to another")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("from", "Trader pseudonym the path starts at")
+  .addParam("to", "Trader pseudonym the path ends at")
+  .addOptionalParam("hops", "Largest distance to look for", "4")
+  .addOptionalParam("chunk", "Steps per on-chain transaction (nodes + 1 per hop)", "2")
+  .addOptionalParam("result", "Result id of an interrupted computation to resume")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const [regulator] = await hre.ethers.getSigners();
+    const contract = await getAnalysisContract(hre, args.address);
+    const options = {
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ hops, next, maxHops, nodeCount }: HopDistanceProgress) =>
+        console.log(
+          hops < maxHops ? `Hop ${hops + 1n}/${maxHops}: step ${next}/${nodeCount + 1n}` : `Walked ${maxHops} hops`,
+        ),
+    };
+
+    let resultId: bigint;
+    if (args.result) {
+      resultId = BigInt(args.result);
+      await finishHopDistance(contract, resultId, options);
+    } else {
+      const [from, to, maxHops] = [parseInt(args.from), parseInt(args.to), parseInt(args.hops)];
+      resultId = await computeHopDistance(hre.fhevm, contract, BigInt(args.session), from, to, maxHops, options);
+    }
+    const maxHops = Number((await contract.getHopDistanceRun(resultId)).maxHops);
+    const distance = await decryptHopDistance(contract, resultId, (handle) =>
+      hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, args.address, regulator),
+    );
+    console.log(
+      distance > maxHops
+        ? `Trader ${args.to} is more than ${maxHops} hops from trader ${args.from} (result ${resultId})`
+        : `Trader ${args.to} is ${distance} hops from trader ${args.from} (result ${resultId})`,
+    );
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:grant-hop-distance --address 0x... --result 1 --analyst 0x...
+ */
+task("task:grant-hop-distance", "Lets an analyst decrypt a hop distance (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("result", "Hop distance result id")
+  .addParam("analyst", "Analyst address")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const receipt = await grantHopDistance(contract, BigInt(args.result), args.analyst);
+    console.log(`Granted ${args.analyst} hop distance ${args.result} (tx: ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:similarity --address 0x... --session 1 --securities 42,43 \
+ *     --start 1717430400 --bucket 3600 --buckets 8 --first 1 --last 40 --decrypt
+ *
+ * Rerun the same command after a failure to resume the scan. The matrix lines up with the
+ * adjacency matrix, so both can be combined node by node.
+ */
+task("task:similarity", "Counts the security/time buckets every pair of traders shares, for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("securities", "Comma-separated security IDs")
+  .addParam("start", "Start of the first bucket, unix seconds")
+  .addParam("bucket", "Seconds per bucket")
+  .addParam("buckets", "Buckets per security")
+  .addParam("first", "First transaction id")
+  .addParam("last", "Last transaction id")
+  .addOptionalParam("chunk", "Steps per on-chain transaction (per bucket: 1 per transaction and node pair)", "4")
+  .addFlag("decrypt", "Decrypt and print the similarity matrix")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const similarity = await computeSimilarity(contract, BigInt(args.session), {
+      securities: String(args.securities)
+        .split(",")
+        .map((id) => parseInt(id.trim())),
+      startTime: parseInt(args.start),
+      bucketSeconds: parseInt(args.bucket),
+      bucketCount: parseInt(args.buckets),
+      firstId: BigInt(args.first),
+      lastId: BigInt(args.last),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ nextCell, cells }) => console.log(`Scanned ${nextCell}/${cells} buckets`),
+    });
+    console.log("Similarity scan complete");
+    if (!args.decrypt) return;
+
+    await hre.fhevm.initializeCLIApi();
+    const [regulator] = await hre.ethers.getSigners();
+    const n = Math.round(Math.sqrt(similarity.length));
+    for (let i = 0; i < n; i++) {
+      const row: number[] = [];
+      for (let j = 0; j < n; j++) {
+        const handle = similarity[i * n + j];
+        row.push(Number(await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, args.address, regulator)));
+      }
+      console.log(`Trader ${await contract.nodeTraderIds(i)} (node ${i}): [${row.join(", ")}]`);
+    }
+  });
@@ -0,0 +1,189 @@
+// tasks/patterns.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import {
+  scanEventWindow,
+  scanFrontRunning,
+  scanVolumeSpikes,
+  scanWashTrades,
+  scanWatchLists,
+  setWashTradeWindow,
+} from "../src/patterns";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:set-wash-trade-window --address 0x... --seconds 30
+ */
+task("task:set-wash-trade-window", "Sets the encrypted wash-trade time window (admin only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("seconds", "Maximum seconds between two opposite trades of a wash trade")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const contract = await getAnalysisContract(hre, args.address);
+    const receipt = await setWashTradeWindow(hre.fhevm, contract, parseInt(args.seconds));
+    console.log(`Wash-trade window updated (tx: ${receipt.hash})`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:scan-wash-trades --address 0x... --session 1 --first 1 --last 40
+ */
+task("task:scan-wash-trades", "Counts wash trades among a transaction range for a running analysis session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("first", "First transaction id")
+  .addParam("last", "Last transaction id")
+  .addOptionalParam("chunk", "Checks per on-chain transaction", "8")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const handle = await scanWashTrades(contract, BigInt(args.session), {
+      firstId: BigInt(args.first),
+      lastId: BigInt(args.last),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ nextA, nextB, lastId }) =>
+        console.log(`next check: transactions ${nextA} and ${nextB} (range ends at ${lastId})`),
+    });
+    console.log(`Encrypted wash-trade count: ${handle}`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:scan-event-window --address 0x... --session 1 --event 3 \
+ *     --lookback 86400 --first 1 --last 40
+ */
+task("task:scan-event-window", "Counts and sums trades before a corporate event's announcement for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("event", "Corporate event id")
+  .addParam("lookback", "Seconds before the announcement to look at")
+  .addParam("first", "First transaction id")
+  .addParam("last", "Last transaction id")
+  .addOptionalParam("chunk", "Transactions checked per on-chain transaction", "8")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const result = await scanEventWindow(contract, BigInt(args.session), BigInt(args.event), {
+      lookback: parseInt(args.lookback),
+      firstId: BigInt(args.first),
+      lastId: BigInt(args.last),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ processedUpTo, lastId }) => console.log(`checked transactions up to ${processedUpTo}/${lastId}`),
+    });
+    console.log(`Encrypted trade count: ${result.tradeCount}`);
+    console.log(`Encrypted trade volume: ${result.tradeVolume}`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:scan-watch-lists --address 0x... --session 1 --first 1 --last 40
+ */
+task("task:scan-watch-lists", "Counts the transactions of a range that touch a watch list, for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("first", "First transaction id")
+  .addParam("last", "Last transaction id")
+  .addOptionalParam("chunk", "Transactions checked per on-chain transaction", "2")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const handle = await scanWatchLists(contract, BigInt(args.session), {
+      firstId: BigInt(args.first),
+      lastId: BigInt(args.last),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ processedUpTo, lastId }) => console.log(`checked transactions up to ${processedUpTo}/${lastId}`),
+    });
+    console.log(`Encrypted watch list hit count: ${handle}`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:scan-front-running --address 0x... --session 1 --window 300 \
+ *     --first-order 1 --last-order 5 --first 1 --last 40
+ *
+ * Once finished, computeRiskScore adds the session's front-running count to its score.
+ */
+task("task:scan-front-running", "Counts trades front-running large client orders per trader, for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("window", "Seconds before an order in which same-side trades count as front-running")
+  .addParam("firstOrder", "First large order id")
+  .addParam("lastOrder", "Last large order id")
+  .addParam("first", "First transaction id")
+  .addParam("last", "Last transaction id")
+  .addOptionalParam("chunk", "Transaction/order pairs checked per on-chain transaction", "4")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const result = await scanFrontRunning(contract, BigInt(args.session), {
+      window: parseInt(args.window),
+      firstOrder: BigInt(args.firstOrder),
+      lastOrder: BigInt(args.lastOrder),
+      firstId: BigInt(args.first),
+      lastId: BigInt(args.last),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ nextId, lastId }) => console.log(`checked transactions up to ${nextId - 1n}/${lastId}`),
+    });
+    console.log(`Encrypted front-running counts per node: ${result.counts.join(", ")}`);
+    console.log(`Encrypted front-running total: ${result.total}`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:scan-volume-spikes --address 0x... --session 1 --securities 42,43 \
+ *     --start 1717430400 --bucket 3600 --buckets 8 --first 1 --last 40 --decrypt
+ *
+ * Every security needs a baseline (task:set-volume-baselines). Rerun the same command after a
+ * failure to resume the scan. The signer completing the scan can decrypt the spike flags and
+ * trade counts, which are printed when --decrypt is passed.
+ */
+task("task:scan-volume-spikes", "Flags time buckets whose encrypted volume exceeds the baseline, for a running session")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("session", "Analysis session id")
+  .addParam("securities", "Comma-separated security IDs")
+  .addParam("start", "Start of the first bucket, unix seconds")
+  .addParam("bucket", "Seconds per bucket")
+  .addParam("buckets", "Buckets per security")
+  .addParam("first", "First transaction id")
+  .addParam("last", "Last transaction id")
+  .addOptionalParam("chunk", "Bucket/transaction pairs checked per on-chain transaction", "8")
+  .addFlag("decrypt", "Decrypt and print the flags and trade counts")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const bucketCount = parseInt(args.buckets);
+    const result = await scanVolumeSpikes(contract, BigInt(args.session), {
+      securities: String(args.securities)
+        .split(",")
+        .map((id) => parseInt(id.trim())),
+      startTime: parseInt(args.start),
+      bucketSeconds: parseInt(args.bucket),
+      bucketCount,
+      firstId: BigInt(args.first),
+      lastId: BigInt(args.last),
+      chunkSize: parseInt(args.chunk),
+      onProgress: ({ nextCell, cells }) => console.log(`Aggregated ${nextCell}/${cells} buckets`),
+    });
+    console.log("Volume spike scan complete");
+    if (!args.decrypt) {
+      console.log(`Encrypted spike flags: ${result.flags.join(", ")}`);
+      console.log(`Encrypted trade counts: ${result.tradeCounts.join(", ")}`);
+      return;
+    }
+
+    await hre.fhevm.initializeCLIApi();
+    const [regulator] = await hre.ethers.getSigners();
+    for (let cell = 0; cell < result.flags.length; cell++) {
+      const spike = await hre.fhevm.userDecryptEbool(result.flags[cell], args.address, regulator);
+      const trades = await hre.fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        result.tradeCounts[cell],
+        args.address,
+        regulator,
+      );
+      const security = result.securities[Math.floor(cell / bucketCount)];
+      console.log(`Security ${security}, bucket ${cell % bucketCount}: ${trades} trades${spike ? ", SPIKE" : ""}`);
+    }
+  });
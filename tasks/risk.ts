@@ -0,0 +1,36 @@
+// tasks/risk.ts
+import { task } from "hardhat/config";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:set-risk-weights --address 0x... --cycle 20 --window 30
+ *
+ * Weights that are not passed keep their current on-chain values.
+ */
+task("task:set-risk-weights", "Updates the InsiderRingAnalysis risk scoring weights (admin only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addOptionalParam("cycle", "Points per detected cycle")
+  .addOptionalParam("volume", "Points per volume unit")
+  .addOptionalParam("divisor", "Volume per volume unit")
+  .addOptionalParam("timing", "Points per close trade pair")
+  .addOptionalParam("window", "Seconds within which trades count as close")
+  .addOptionalParam("frontRun", "Points per front-running trade")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const current = await contract.riskWeights();
+    const weight = (value: string | undefined, onChain: bigint) =>
+      value === undefined ? Number(onChain) : parseInt(value);
+    const weights = {
+      cycleWeight: weight(args.cycle, current.cycleWeight),
+      volumeWeight: weight(args.volume, current.volumeWeight),
+      volumeDivisor: weight(args.divisor, current.volumeDivisor),
+      timingWeight: weight(args.timing, current.timingWeight),
+      timingWindow: weight(args.window, current.timingWindow),
+      frontRunWeight: weight(args.frontRun, current.frontRunWeight),
+    };
+    const tx = await contract.setRiskWeights(weights);
+    await tx.wait();
+    console.log(`Risk weights updated (tx: ${tx.hash})`, weights);
+  });
@@ -0,0 +1,42 @@
+// tasks/roles.ts
+import { task } from "hardhat/config";
+import { getRoles, grantRole, parseRole, revokeRole } from "../src/roles";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:grant-role --address 0x... --role broker --account 0x...
+ */
+task("task:grant-role", "Grants an InsiderRingAnalysis role to an account")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("role", "Role name: admin, regulator or broker")
+  .addParam("account", "Account receiving the role")
+  .setAction(async (args, hre) => {
+    const role = parseRole(args.role);
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const receipt = await grantRole(contract, role, args.account);
+    console.log(`Granted ${role} to ${args.account} (tx: ${receipt?.hash})`);
+  });
+
+task("task:revoke-role", "Revokes an InsiderRingAnalysis role from an account")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("role", "Role name: admin, regulator or broker")
+  .addParam("account", "Account losing the role")
+  .setAction(async (args, hre) => {
+    const role = parseRole(args.role);
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const receipt = await revokeRole(contract, role, args.account);
+    console.log(`Revoked ${role} from ${args.account} (tx: ${receipt?.hash})`);
+  });
+
+task("task:roles", "Lists the InsiderRingAnalysis roles held by an account")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("account", "Account to inspect")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+
+    const roles = await getRoles(contract, args.account);
+    console.log(`${args.account}: ${roles.length > 0 ? roles.join(", ") : "no roles"}`);
+  });
@@ -0,0 +1,75 @@
+// tasks/transactions.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import { exportLegacyTransactions, findLegacyTransactionIds, getLegacyContract } from "../src/migration";
+import { parseInstrumentType, parseTradeSide } from "../src/transactions";
+import { TRADE_FILE_COLUMNS, readTradeFile, uploadTrades, writeTradeFile } from "../src/uploader";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:upload-trades --address 0x... --file trades.csv
+ *
+ * Rerun the same command after a failure to resume from the last confirmed chunk.
+ */
+task("task:upload-trades", "Encrypts and uploads a CSV trade file in gas-bounded batches")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("file", `CSV with columns ${TRADE_FILE_COLUMNS.join(",")}`)
+  .addOptionalParam("checkpoint", "Checkpoint file used to resume (default: <file>.checkpoint.json)")
+  .addOptionalParam("batchSize", "Maximum trades per batch")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const contract = await getAnalysisContract(hre, args.address);
+    const trades = readTradeFile(args.file);
+
+    const result = await uploadTrades(hre.fhevm, contract, trades, {
+      checkpointFile: args.checkpoint ?? `${args.file}.checkpoint.json`,
+      maxBatchSize: args.batchSize ? parseInt(args.batchSize) : undefined,
+      onProgress: ({ confirmed, total, batch }) =>
+        console.log(`[${confirmed}/${total}] transactions ${batch?.firstId}-${batch?.lastId} (tx: ${batch?.txHash})`),
+    });
+
+    console.log(`Uploaded ${result.confirmedTrades} transactions in ${result.batches.length} batches`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:export-legacy-trades --legacy 0x... --file legacy.csv --side buy
+ *   npx hardhat --network sepolia task:upload-trades --address 0x... --file legacy.csv
+ *
+ * Migrates the signer's transactions out of a deployment that predates the 64-bit schema:
+ * they are user-decrypted into a trade file, which the broker reviews (price, side and
+ * instrumentType are filled from the defaults) and then uploads to the new deployment.
+ */
+task("task:export-legacy-trades", "Decrypts the broker's transactions on a pre-64-bit deployment into a trade file")
+  .addParam("legacy", "Legacy InsiderRingAnalysis contract address")
+  .addParam("file", "Trade file to write")
+  .addOptionalParam("fromBlock", "Block the legacy contract was deployed in", "0")
+  .addOptionalParam("price", "Price recorded for every exported trade", "0")
+  .addOptionalParam("side", "Side recorded for every exported trade (buy or sell)", "buy")
+  .addOptionalParam("instrument", "Instrument type recorded for every exported trade", "equity")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const [broker] = await hre.ethers.getSigners();
+    const legacy = getLegacyContract(args.legacy, broker);
+    const ids = await findLegacyTransactionIds(legacy, broker.address, parseInt(args.fromBlock));
+    console.log(`Found ${ids.length} transactions submitted by ${broker.address}`);
+
+    const trades = await exportLegacyTransactions(
+      legacy,
+      ids,
+      (handle) => hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, args.legacy, broker),
+      {
+        defaults: {
+          price: BigInt(args.price),
+          side: parseTradeSide(args.side),
+          instrumentType: parseInstrumentType(args.instrument),
+        },
+        onProgress: ({ exported, total }) => console.log(`[${exported}/${total}] decrypted`),
+      },
+    );
+    writeTradeFile(args.file, trades);
+    console.log(`Wrote ${trades.length} transactions to ${args.file}; review it, then run task:upload-trades`);
+  });
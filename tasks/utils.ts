@@ -0,0 +1,53 @@
+// tasks/utils.ts
+import { Contract, Interface } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Modules whose functions InsiderRingAnalysis serves through its fallback
+export const ANALYSIS_MODULES = ["PatternAnalysis", "ResultDisclosure", "GraphMetrics"];
+
+// Libraries each analysis contract links against
+export const LINKED_LIBRARIES: Record<string, string[]> = {
+  InsiderRingAnalysis: ["EncryptedGraph"],
+  PatternAnalysis: ["EncryptedPatterns"],
+};
+
+// InsiderRingAnalysis ABI extended with the module functions callable on its address
+export async function getAnalysisInterface(hre: HardhatRuntimeEnvironment): Promise<Interface> {
+  const core = new Interface((await hre.artifacts.readArtifact("InsiderRingAnalysis")).abi);
+  const fragments = [...core.fragments];
+  for (const name of ANALYSIS_MODULES) {
+    const module = new Interface((await hre.artifacts.readArtifact(name)).abi);
+    module.forEachFunction((fn) => {
+      if (fn.name !== "moduleSelectors" && !core.getFunction(fn.selector)) fragments.push(fn);
+    });
+  }
+  return new Interface(fragments);
+}
+
+export async function getAnalysisContract(hre: HardhatRuntimeEnvironment, address: string): Promise<Contract> {
+  const [signer] = await hre.ethers.getSigners();
+  return new Contract(address, await getAnalysisInterface(hre), signer);
+}
+
+// Deploys InsiderRingAnalysis together with its modules and the libraries they link against
+export async function deployAnalysisContract(hre: HardhatRuntimeEnvironment): Promise<Contract> {
+  const [signer] = await hre.ethers.getSigners();
+
+  const deployed: Record<string, string> = {};
+  const deploy = async (name: string, args: unknown[] = []): Promise<string> => {
+    const libraries: Record<string, string> = {};
+    for (const library of LINKED_LIBRARIES[name] ?? []) {
+      deployed[library] ??= await deploy(library);
+      libraries[library] = deployed[library];
+    }
+    const contract = await (await hre.ethers.getContractFactory(name, { signer, libraries })).deploy(...args);
+    await contract.waitForDeployment();
+    return contract.getAddress();
+  };
+
+  const modules: string[] = [];
+  for (const name of ANALYSIS_MODULES) {
+    modules.push(await deploy(name));
+  }
+  return getAnalysisContract(hre, await deploy("InsiderRingAnalysis", [modules]));
+}
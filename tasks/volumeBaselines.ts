@@ -0,0 +1,30 @@
+// tasks/volumeBaselines.ts
+import { task } from "hardhat/config";
+import { MAX_BASELINES_PER_PROOF, readVolumeBaselines, setVolumeBaselines } from "../src/volumeBaselines";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:set-volume-baselines --address 0x... --file baselines.csv
+ *
+ * The CSV needs the columns security and baseline (expected volume per time bucket), for example:
+ *   security,baseline
+ *   42,250000
+ */
+task("task:set-volume-baselines", "Sets encrypted per-bucket volume baselines for spike detection (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("file", "CSV with the columns security and baseline")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const contract = await getAnalysisContract(hre, args.address);
+    const baselines = readVolumeBaselines(args.file);
+    if (baselines.length === 0) {
+      throw new Error(`No baselines in ${args.file}`);
+    }
+    for (let i = 0; i < baselines.length; i += MAX_BASELINES_PER_PROOF) {
+      const batch = baselines.slice(i, i + MAX_BASELINES_PER_PROOF);
+      const receipt = await setVolumeBaselines(hre.fhevm, contract, batch);
+      console.log(`Set ${batch.length} encrypted baselines (tx: ${receipt.hash})`);
+    }
+  });
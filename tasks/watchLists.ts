@@ -0,0 +1,57 @@
+// tasks/watchLists.ts
+import { task } from "hardhat/config";
+import {
+  WatchListKind,
+  clearWatchList,
+  getWatchListSizes,
+  parseWatchListKind,
+  readWatchList,
+  replaceWatchList,
+} from "../src/watchLists";
+import { getAnalysisContract } from "./utils";
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:upload-watch-list --address 0x... --kind securities --file restricted.csv
+ *   npx hardhat --network sepolia task:upload-watch-list --address 0x... --kind traders --file insiders.csv
+ *
+ * The CSV needs a single column id, for example:
+ *   id
+ *   42
+ *   1007
+ */
+task("task:upload-watch-list", "Replaces an encrypted restricted or watch list (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("kind", "securities or traders")
+  .addParam("file", "CSV with a column id")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+
+    const contract = await getAnalysisContract(hre, args.address);
+    const kind = parseWatchListKind(args.kind);
+    const ids = readWatchList(args.file);
+    await replaceWatchList(hre.fhevm, contract, kind, ids);
+    console.log(`Uploaded ${ids.length} encrypted entries to the ${WatchListKind[kind]} watch list`);
+  });
+
+/**
+ * Example:
+ *   npx hardhat --network sepolia task:clear-watch-list --address 0x... --kind traders
+ */
+task("task:clear-watch-list", "Removes every entry of a watch list (regulator only)")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .addParam("kind", "securities or traders")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const kind = parseWatchListKind(args.kind);
+    const receipt = await clearWatchList(contract, kind);
+    console.log(`Cleared the ${WatchListKind[kind]} watch list (tx: ${receipt.hash})`);
+  });
+
+task("task:watch-lists", "Shows how many entries the encrypted watch lists hold")
+  .addParam("address", "InsiderRingAnalysis contract address")
+  .setAction(async (args, hre) => {
+    const contract = await getAnalysisContract(hre, args.address);
+    const { securities, traders, version } = await getWatchListSizes(contract);
+    console.log(`Restricted securities: ${securities}, watched traders: ${traders} (version ${version})`);
+  });
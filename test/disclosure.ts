@@ -0,0 +1,292 @@
+// test/disclosure.ts
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { AbiCoder, Contract, ContractTransactionResponse, concat, solidityPacked } from "ethers";
+import hre from "hardhat";
+import {
+  DecryptionStatus,
+  cancelDecryption,
+  getDecryptionRequest,
+  getLatestDecryptionRequest,
+  retryDecryption,
+} from "../src/disclosure";
+import { countShortCycles } from "../src/reference/cycles";
+import { buildAdjacencyMatrix } from "../src/reference/graph";
+import { closeTradePairs, riskScore, ringVolume } from "../src/reference/risk";
+import { ROLES } from "../src/roles";
+import { SessionState } from "../src/sessions";
+import { Deployment, buildDenseGraph, deployAnalysis, startSession, trade } from "./utils";
+
+const NODE_TRADER_IDS = [101, 102, 103];
+const T0 = 1_700_000_000;
+
+// A single triangle 101 -> 102 -> 103 -> 101, with no two trades inside the timing window
+const TRADES = [
+  trade(101, 102, { amount: 2_000, timestamp: T0 }),
+  trade(102, 103, { amount: 2_000, timestamp: T0 + 100 }),
+  trade(103, 101, { amount: 2_000, timestamp: T0 + 200 }),
+];
+
+function expectedRiskScore(): number {
+  const matrix = buildAdjacencyMatrix(TRADES, NODE_TRADER_IDS);
+  const cycles = countShortCycles(matrix);
+  return riskScore({
+    cycles: cycles.total,
+    ringVolume: ringVolume(matrix, cycles.participation),
+    closeTradePairs: closeTradePairs(
+      TRADES.map((t) => Number(t.timestamp)),
+      60,
+    ),
+  });
+}
+
+const encodeWords = (...words: bigint[]) => AbiCoder.defaultAbiCoder().encode(words.map(() => "uint256"), words);
+
+// Decryption proof the mock KMS signs for the given cleartexts of the given handles
+async function decryptionProof(handles: string[], values: (bigint | boolean)[]): Promise<string> {
+  // The mock relayer answers with { decryptedResult, signatures } although this is typed as the signatures
+  const signed: unknown = await hre.fhevm.debugger.createDecryptionSignatures(handles, values);
+  const signatures = Array.isArray(signed) ? (signed as string[]) : (signed as { signatures: string[] }).signatures;
+  return concat([solidityPacked(["uint8"], [signatures.length]), ...signatures, solidityPacked(["uint8"], [0])]);
+}
+
+// Request id and handles of the oracle request sent by a transaction
+async function oracleRequest(
+  send: Promise<ContractTransactionResponse>,
+): Promise<{ requestId: bigint; handles: string[] }> {
+  const receipt = await (await send).wait();
+  const [event] = hre.fhevm.parseDecryptionRequestEvents(receipt!.logs);
+  return { requestId: event.requestID, handles: event.handlesBytes32Hex };
+}
+
+describe("Result disclosure", function () {
+  let deployment: Deployment;
+  let other: HardhatEthersSigner;
+  let sessionId: bigint;
+  const score = expectedRiskScore();
+
+  const asOther = () => deployment.contract.connect(other) as Contract;
+  const state = async () => Number(await deployment.contract.getSessionState(sessionId)) as SessionState;
+
+  async function requestThresholdCheck() {
+    return oracleRequest(deployment.contract.requestResultDecryption(sessionId));
+  }
+
+  async function discardedRequests(): Promise<bigint[]> {
+    const { contract } = deployment;
+    const events = await contract.queryFilter(contract.filters.DecryptionDiscarded());
+    return events.map((event) => contract.interface.parseLog(event)!.args.requestId);
+  }
+
+  before(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    deployment = await deployAnalysis();
+    const { contract } = deployment;
+    [, other] = await hre.ethers.getSigners();
+    await (await contract.grantRole(ROLES.regulator, other.address)).wait();
+
+    await buildDenseGraph(contract, NODE_TRADER_IDS, TRADES);
+    sessionId = await startSession(contract);
+    await (await contract.detectShortCycles(sessionId)).wait();
+    await (await contract.computeRiskScore(sessionId, 1, TRADES.length)).wait();
+    expect(await state()).to.equal(SessionState.Completed);
+  });
+
+  describe("threshold check", function () {
+    it("moves a session above the threshold through the oracle", async function () {
+      await (await deployment.contract.setRevealThreshold(score)).wait();
+      const { requestId } = await requestThresholdCheck();
+      await hre.fhevm.awaitDecryptionOracle();
+
+      expect(await state()).to.equal(SessionState.AboveThreshold);
+      expect((await getDecryptionRequest(deployment.contract, requestId)).status).to.equal(DecryptionStatus.Fulfilled);
+    });
+
+    it("moves a session below the threshold through the oracle", async function () {
+      await (await deployment.contract.setRevealThreshold(score + 1)).wait();
+      await requestThresholdCheck();
+      await hre.fhevm.awaitDecryptionOracle();
+
+      expect(await state()).to.equal(SessionState.BelowThreshold);
+    });
+
+    it("accepts a directly delivered flag signed by the KMS", async function () {
+      await (await deployment.contract.setRevealThreshold(score)).wait();
+      const { requestId, handles } = await requestThresholdCheck();
+      const proof = await decryptionProof(handles, [true]);
+
+      await (await deployment.contract.decryptThresholdCheck(requestId, encodeWords(1n), proof)).wait();
+      expect(await state()).to.equal(SessionState.AboveThreshold);
+
+      // The oracle's own answer now arrives for a fulfilled request
+      await expect(hre.fhevm.awaitDecryptionOracle()).to.be.rejected;
+      expect(await state()).to.equal(SessionState.AboveThreshold);
+    });
+
+    it("rejects cleartexts with the wrong number of words", async function () {
+      const { requestId, handles } = await requestThresholdCheck();
+      const proof = await decryptionProof(handles, [false]);
+
+      for (const cleartexts of ["0x", encodeWords(0n, 0n), encodeWords(0n).slice(0, -2)]) {
+        await expect(deployment.contract.decryptThresholdCheck(requestId, cleartexts, proof)).to.be.revertedWith(
+          "Malformed cleartexts",
+        );
+      }
+      expect(await state()).to.equal(SessionState.ThresholdCheckRequested);
+    });
+
+    it("rejects a flag other than 0 or 1", async function () {
+      await (await deployment.contract.setRevealThreshold(score)).wait();
+      const { requestId, handles } = await requestThresholdCheck();
+      const proof = await decryptionProof(handles, [true]);
+
+      await expect(deployment.contract.decryptThresholdCheck(requestId, encodeWords(2n), proof)).to.be.reverted;
+      expect(await state()).to.equal(SessionState.ThresholdCheckRequested);
+      expect((await getDecryptionRequest(deployment.contract, requestId)).status).to.equal(DecryptionStatus.Pending);
+    });
+
+    it("rejects unknown, wrong-kind and repeated callbacks", async function () {
+      const { contract } = deployment;
+      const { requestId, handles } = await requestThresholdCheck();
+      const proof = await decryptionProof(handles, [false]);
+
+      await expect(contract.decryptThresholdCheck(requestId + 1n, encodeWords(0n), proof)).to.be.revertedWith(
+        "Unknown request",
+      );
+      await expect(contract.decryptAnalysisResult(requestId, encodeWords(0n), proof)).to.be.revertedWith(
+        "Unknown request",
+      );
+
+      await hre.fhevm.awaitDecryptionOracle();
+      await expect(contract.decryptThresholdCheck(requestId, encodeWords(0n), proof)).to.be.revertedWith(
+        "Request already fulfilled",
+      );
+      expect(await state()).to.equal(SessionState.BelowThreshold);
+    });
+
+    it("discards a late answer to a cancelled request", async function () {
+      await (await deployment.contract.setRevealThreshold(score)).wait();
+      const { requestId } = await requestThresholdCheck();
+      await cancelDecryption(deployment.contract, requestId);
+      expect(await state()).to.equal(SessionState.Completed);
+
+      await hre.fhevm.awaitDecryptionOracle();
+      expect(await discardedRequests()).to.deep.equal([requestId]);
+      expect(await state()).to.equal(SessionState.Completed);
+      expect((await getDecryptionRequest(deployment.contract, requestId)).status).to.equal(DecryptionStatus.Cancelled);
+    });
+
+    it("checks a re-requested session against its first threshold", async function () {
+      const { contract } = deployment;
+      await (await contract.setRevealThreshold(score + 1)).wait();
+      const first = await requestThresholdCheck();
+      await cancelDecryption(contract, first.requestId);
+
+      await (await contract.setRevealThreshold(score)).wait();
+      await expect(contract.requestResultDecryption(sessionId))
+        .to.emit(contract, "ThresholdCheckRequested")
+        .withArgs(sessionId, score + 1);
+      const second = await getLatestDecryptionRequest(contract, sessionId);
+      expect(second!.requestId).to.not.equal(first.requestId);
+
+      await hre.fhevm.awaitDecryptionOracle();
+      expect(await state()).to.equal(SessionState.BelowThreshold);
+    });
+  });
+
+  describe("deadlines", function () {
+    it("only lets the requester cancel before the deadline", async function () {
+      const { contract } = deployment;
+      const { requestId } = await requestThresholdCheck();
+
+      await expect(asOther().cancelDecryption(requestId)).to.be.revertedWith(
+        "Request not timed out",
+      );
+      await expect(contract.retryDecryption(requestId)).to.be.revertedWith("Request not timed out");
+
+      await cancelDecryption(contract, requestId);
+      await expect(contract.cancelDecryption(requestId)).to.be.revertedWith("Request not pending");
+    });
+
+    it("lets any regulator cancel a timed-out request", async function () {
+      const { contract } = deployment;
+      const { requestId } = await requestThresholdCheck();
+      await time.increase(Number(await contract.decryptionTimeout()) + 1);
+
+      await (await asOther().cancelDecryption(requestId)).wait();
+      expect(await state()).to.equal(SessionState.Completed);
+    });
+
+    it("supersedes a timed-out request on retry and discards its late answer", async function () {
+      const { contract } = deployment;
+      await (await contract.setRevealThreshold(score)).wait();
+      const { requestId } = await requestThresholdCheck();
+      await time.increase(Number(await contract.decryptionTimeout()) + 1);
+
+      const retryRequestId = await retryDecryption(asOther(), requestId);
+      expect((await getDecryptionRequest(contract, requestId)).status).to.equal(DecryptionStatus.Superseded);
+      await expect(contract.retryDecryption(requestId)).to.be.revertedWith("Request not pending");
+
+      await hre.fhevm.awaitDecryptionOracle();
+      expect(await discardedRequests()).to.deep.equal([requestId]);
+      expect((await getDecryptionRequest(contract, retryRequestId)).status).to.equal(DecryptionStatus.Fulfilled);
+      expect(await state()).to.equal(SessionState.AboveThreshold);
+    });
+  });
+
+  describe("member reveal", function () {
+    beforeEach(async function () {
+      await (await deployment.contract.setRevealThreshold(score)).wait();
+      await requestThresholdCheck();
+      await hre.fhevm.awaitDecryptionOracle();
+    });
+
+    it("reveals the ring members and the score once the quorum approves", async function () {
+      const { contract } = deployment;
+      await (await contract.approveReveal(sessionId, hre.ethers.id("justification"))).wait();
+      expect(await state()).to.equal(SessionState.RevealRequested);
+
+      await hre.fhevm.awaitDecryptionOracle();
+      expect(await state()).to.equal(SessionState.Revealed);
+      const [ringMembers, riskScore, isRevealed] = await contract.getDecryptedAnalysisResult(sessionId);
+      const { ringMembers: expectedMembers } = countShortCycles(buildAdjacencyMatrix(TRADES, NODE_TRADER_IDS));
+      expect(ringMembers.map(Number)).to.deep.equal(expectedMembers);
+      expect(Number(riskScore)).to.equal(score);
+      expect(isRevealed).to.equal(true);
+    });
+
+    it("rejects member cleartexts with the wrong number of words", async function () {
+      const { contract } = deployment;
+      const justification = hre.ethers.id("justification");
+      const { requestId, handles } = await oracleRequest(contract.approveReveal(sessionId, justification));
+      const proof = await decryptionProof(handles, [1n, 2n, 3n, BigInt(score)]);
+
+      await expect(contract.decryptAnalysisResult(requestId, encodeWords(1n, 2n, 3n), proof)).to.be.revertedWith(
+        "Malformed cleartexts",
+      );
+      await expect(contract.decryptThresholdCheck(requestId, encodeWords(1n), proof)).to.be.revertedWith(
+        "Unknown request",
+      );
+      expect(await state()).to.equal(SessionState.RevealRequested);
+    });
+
+    it("discards a late answer to a cancelled member reveal", async function () {
+      const { contract } = deployment;
+      const { requestId } = await oracleRequest(contract.approveReveal(sessionId, hre.ethers.id("justification")));
+      await cancelDecryption(contract, requestId);
+      expect(await state()).to.equal(SessionState.AboveThreshold);
+
+      await hre.fhevm.awaitDecryptionOracle();
+      expect(await discardedRequests()).to.deep.equal([requestId]);
+      expect(await state()).to.equal(SessionState.AboveThreshold);
+      const [, , isRevealed] = await contract.getDecryptedAnalysisResult(sessionId);
+      expect(isRevealed).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+// test/graphSnapshot.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import hre from "hardhat";
+import { computeCentrality, decryptNodeMetrics, labelComponents, takeGraphSnapshot } from "../src/metrics";
+import { labelComponents as referenceLabels, largestSuspiciousComponent } from "../src/reference/components";
+import { countShortCycles } from "../src/reference/cycles";
+import { buildAdjacencyMatrix } from "../src/reference/graph";
+import { nodeMetrics } from "../src/reference/metrics";
+import {
+  Deployment,
+  buildDenseGraph,
+  buildSparseGraph,
+  decryptUint,
+  deployAnalysis,
+  startSession,
+  trade,
+} from "./utils";
+
+const NODE_TRADER_IDS = [101, 102, 103, 104];
+
+// Two components, one with a reciprocal cycle, plus a repeated pair, a self-trade and a trade
+// with a trader outside the table
+const TRADES = [
+  trade(101, 102, { amount: 25 }),
+  trade(102, 101, { amount: 40 }),
+  trade(101, 102, { amount: 7 }),
+  trade(103, 104, { amount: 300 }),
+  trade(103, 103),
+  trade(105, 101),
+];
+
+describe("Graph snapshot", function () {
+  before(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  const matrix = buildAdjacencyMatrix(TRADES, NODE_TRADER_IDS);
+  let deployment: Deployment;
+  let sessionId: bigint;
+
+  before(async function () {
+    deployment = await deployAnalysis();
+    await buildSparseGraph(deployment.contract, NODE_TRADER_IDS, TRADES);
+    sessionId = await startSession(deployment.contract);
+  });
+
+  it("is needed before any metric of a sparse session", async function () {
+    const { contract } = deployment;
+    await expect(contract.startCentrality(sessionId)).to.be.revertedWith("Graph snapshot not taken");
+    await expect(contract.startTriangleCount(sessionId)).to.be.revertedWith("Graph snapshot not taken");
+  });
+
+  it("resumes a snapshot stopped inside an edge", async function () {
+    const { contract } = deployment;
+    await (await contract.startGraphSnapshot(sessionId)).wait();
+    await expect(contract.continueGraphSnapshot(sessionId, 7))
+      .to.emit(contract, "GraphSnapshotProgress")
+      .withArgs(sessionId, 0, 7);
+    await expect(contract.startCentrality(sessionId)).to.be.revertedWith("Graph snapshot not taken");
+
+    await takeGraphSnapshot(contract, sessionId, { chunkSize: 10 });
+    const snapshot = await contract.getGraphSnapshot(sessionId);
+    expect([snapshot.nextEdge, snapshot.active]).to.deep.equal([BigInt(TRADES.length), false]);
+    await expect(contract.startGraphSnapshot(sessionId)).to.be.revertedWith("Graph snapshot already started");
+  });
+
+  it("computes centrality matching the reference", async function () {
+    const { contract, signer } = deployment;
+    await computeCentrality(contract, sessionId);
+
+    for (let node = 0; node < NODE_TRADER_IDS.length; node++) {
+      await (await contract.grantNodeMetrics(sessionId, node, signer.address)).wait();
+      const metrics = await decryptNodeMetrics(contract, sessionId, node, (handle, bits) =>
+        decryptUint(deployment, handle, bits === 64 ? FhevmType.euint64 : FhevmType.euint32),
+      );
+      expect(metrics).to.deep.equal(nodeMetrics(matrix, node));
+    }
+  });
+
+  it("labels components matching the reference", async function () {
+    const { contract } = deployment;
+    await (await contract.detectShortCycles(sessionId)).wait();
+    const handles = await labelComponents(contract, sessionId, { rounds: 3, chunkSize: 3 });
+
+    const labels: number[] = [];
+    const ring: number[] = [];
+    for (let node = 0; node < NODE_TRADER_IDS.length; node++) {
+      labels.push(Number(await decryptUint(deployment, handles.labels[node])));
+      ring.push(Number(await decryptUint(deployment, handles.ring[node])));
+    }
+    const expected = referenceLabels(matrix, 3);
+    expect(labels).to.deep.equal(expected);
+    expect(ring).to.deep.equal(largestSuspiciousComponent(expected, countShortCycles(matrix).participation));
+    expect(ring).to.deep.equal([1, 2, 0, 0]);
+  });
+
+  it("is refused in dense mode, where the metrics read the matrix", async function () {
+    const dense = await deployAnalysis();
+    await buildDenseGraph(dense.contract, NODE_TRADER_IDS, TRADES);
+    const denseSession = await startSession(dense.contract);
+
+    await expect(dense.contract.startGraphSnapshot(denseSession)).to.be.revertedWith("Sparse graph mode required");
+  });
+});
@@ -0,0 +1,148 @@
+// test/hopDistance.ts
+import { expect } from "chai";
+import hre from "hardhat";
+import { computeHopDistance, finishHopDistance, takeGraphSnapshot } from "../src/metrics";
+import { buildAdjacencyMatrix } from "../src/reference/graph";
+import { hopDistance } from "../src/reference/reachability";
+import {
+  Deployment,
+  buildDenseGraph,
+  buildSparseGraph,
+  decryptUint,
+  deployAnalysis,
+  randomTrades,
+  seededRandom,
+  startSession,
+  trade,
+} from "./utils";
+
+const NODE_TRADER_IDS = [101, 102, 103, 104, 105];
+const ISOLATED = 105;
+
+// Node 105 never receives a trade, so no other node reaches it
+const GRAPHS = [1, 2].map((seed) => ({
+  seed,
+  trades: randomTrades(seededRandom(seed), NODE_TRADER_IDS, 0.35).filter((t) => t.counterparty !== ISOLATED),
+}));
+
+// Encrypts raw node indexes, so they may also point outside the node table
+async function startRun(deployment: Deployment, sessionId: bigint, from: number, to: number, maxHops: number) {
+  const input = hre.fhevm.createEncryptedInput(deployment.address, deployment.signer.address);
+  const encrypted = await input.add32(from).add32(to).encrypt();
+  const { contract } = deployment;
+  const [fromHandle, toHandle] = encrypted.handles;
+  await (await contract.startHopDistance(sessionId, fromHandle, toHandle, encrypted.inputProof, maxHops)).wait();
+  return contract.hopDistanceCount() as Promise<bigint>;
+}
+
+async function distanceBetween(
+  deployment: Deployment,
+  sessionId: bigint,
+  from: number,
+  to: number,
+  maxHops: number,
+): Promise<number> {
+  const resultId = await startRun(deployment, sessionId, from, to, maxHops);
+  await finishHopDistance(deployment.contract, resultId, { chunkSize: 4 });
+  return Number(await decryptUint(deployment, await deployment.contract.getHopDistance(resultId)));
+}
+
+describe("Hop distance", function () {
+  before(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  for (const { seed, trades } of GRAPHS) {
+    describe(`random graph ${seed}`, function () {
+      const matrix = buildAdjacencyMatrix(trades, NODE_TRADER_IDS);
+      const random = seededRandom(seed * 7919);
+      const from = Math.floor(random() * (NODE_TRADER_IDS.length - 1));
+      const to = (from + 1 + Math.floor(random() * (NODE_TRADER_IDS.length - 2))) % (NODE_TRADER_IDS.length - 1);
+      let deployment: Deployment;
+      let sessionId: bigint;
+
+      before(async function () {
+        deployment = await deployAnalysis();
+        await buildDenseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+        sessionId = await startSession(deployment.contract);
+      });
+
+      for (const maxHops of [1, 3]) {
+        it(`matches the reference between two traders within ${maxHops} hops`, async function () {
+          const resultId = await computeHopDistance(
+            hre.fhevm,
+            deployment.contract,
+            sessionId,
+            NODE_TRADER_IDS[from],
+            NODE_TRADER_IDS[to],
+            maxHops,
+            { chunkSize: 3 },
+          );
+          const handle = await deployment.contract.getHopDistance(resultId);
+          expect(Number(await decryptUint(deployment, handle))).to.equal(hopDistance(matrix, from, to, maxHops));
+        });
+      }
+
+      it("reads zero hops from a trader to itself", async function () {
+        expect(await distanceBetween(deployment, sessionId, from, from, 2)).to.equal(0);
+      });
+
+      it("reads maxHops + 1 for a trader no one reaches", async function () {
+        const isolated = NODE_TRADER_IDS.indexOf(ISOLATED);
+        expect(hopDistance(matrix, from, isolated, 4)).to.equal(5);
+        expect(await distanceBetween(deployment, sessionId, from, isolated, 4)).to.equal(5);
+      });
+
+      it("reads maxHops + 1 for a node index outside the table", async function () {
+        const outside = NODE_TRADER_IDS.length;
+        expect(hopDistance(matrix, from, outside, 2)).to.equal(3);
+        expect(await distanceBetween(deployment, sessionId, from, outside, 2)).to.equal(3);
+        expect(await distanceBetween(deployment, sessionId, outside, from, 2)).to.equal(3);
+      });
+
+      it("matches the reference when an interrupted run is resumed", async function () {
+        const resultId = await startRun(deployment, sessionId, from, to, 4);
+        await (await deployment.contract.continueHopDistance(resultId, 7)).wait();
+        await expect(deployment.contract.getHopDistance(resultId)).to.be.revertedWith("Hop distance not computed");
+
+        await finishHopDistance(deployment.contract, resultId, { chunkSize: 5 });
+        const handle = await deployment.contract.getHopDistance(resultId);
+        expect(Number(await decryptUint(deployment, handle))).to.equal(hopDistance(matrix, from, to, 4));
+      });
+    });
+  }
+
+  it("matches the reference in sparse mode", async function () {
+    const { trades } = GRAPHS[0];
+    const matrix = buildAdjacencyMatrix(trades, NODE_TRADER_IDS);
+    const deployment = await deployAnalysis();
+    await buildSparseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+    const sessionId = await startSession(deployment.contract);
+    await takeGraphSnapshot(deployment.contract, sessionId);
+
+    for (const [from, to] of [
+      [0, 2],
+      [3, 1],
+      [1, NODE_TRADER_IDS.indexOf(ISOLATED)],
+      [2, NODE_TRADER_IDS.length],
+    ]) {
+      expect(await distanceBetween(deployment, sessionId, from, to, 3)).to.equal(hopDistance(matrix, from, to, 3));
+    }
+  });
+
+  it("walks a chain of 8 nodes at maxHops 8, one hop per transaction", async function () {
+    const nodeTraderIds = Array.from({ length: 8 }, (_, i) => 101 + i);
+    const trades = nodeTraderIds.slice(1).map((to, i) => trade(nodeTraderIds[i], to));
+    const deployment = await deployAnalysis();
+    await buildDenseGraph(deployment.contract, nodeTraderIds, trades);
+    const sessionId = await startSession(deployment.contract);
+
+    const resultId = await computeHopDistance(hre.fhevm, deployment.contract, sessionId, 101, 108, 8, {
+      chunkSize: nodeTraderIds.length + 1,
+    });
+    const handle = await deployment.contract.getHopDistance(resultId);
+    expect(Number(await decryptUint(deployment, handle))).to.equal(7);
+  });
+});
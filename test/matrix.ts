@@ -0,0 +1,88 @@
+// test/matrix.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import hre from "hardhat";
+import { buildMatrixFromTransactions, initializeMatrix } from "../src/matrix";
+import { AdjacencyMatrix, buildAdjacencyMatrix } from "../src/reference/graph";
+import { PlainTransaction } from "../src/transactions";
+import { deployAnalysis, randomTrades, seededRandom, submitTrades, trade } from "./utils";
+
+const NODE_TRADER_IDS = [101, 102, 103];
+
+// Cells are only allowed to the contract itself, so they are read through the mock's debugger
+async function decryptCell(contract: Contract, i: number, j: number): Promise<bigint> {
+  return hre.fhevm.debugger.decryptEuint(FhevmType.euint64, await contract.getAdjacencyElement(i, j));
+}
+
+async function decryptMatrix(contract: Contract, size: number): Promise<AdjacencyMatrix> {
+  const matrix: AdjacencyMatrix = [];
+  for (let i = 0; i < size; i++) {
+    const row: bigint[] = [];
+    for (let j = 0; j < size; j++) {
+      row.push(await decryptCell(contract, i, j));
+    }
+    matrix.push(row);
+  }
+  return matrix;
+}
+
+async function buildInChunks(nodeTraderIds: number[], trades: PlainTransaction[], chunkSize: number) {
+  const { contract } = await deployAnalysis();
+  await submitTrades(contract, trades);
+  await initializeMatrix(contract, nodeTraderIds.length);
+  await buildMatrixFromTransactions(contract, { nodeTraderIds, firstId: 1, lastId: trades.length, chunkSize });
+  return contract;
+}
+
+describe("Matrix build", function () {
+  before(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  const trades = [...randomTrades(seededRandom(5), NODE_TRADER_IDS, 0.5), trade(101, 102), trade(104, 101)];
+  const expected = buildAdjacencyMatrix(trades, NODE_TRADER_IDS);
+
+  for (const chunkSize of [4, 9, 20]) {
+    it(`matches the reference in chunks of ${chunkSize} cells`, async function () {
+      const contract = await buildInChunks(NODE_TRADER_IDS, trades, chunkSize);
+      expect(await decryptMatrix(contract, NODE_TRADER_IDS.length)).to.deep.equal(expected);
+    });
+  }
+
+  it("stops inside a trade and resumes at the next cell", async function () {
+    const { contract } = await deployAnalysis();
+    await submitTrades(contract, trades);
+    await initializeMatrix(contract, NODE_TRADER_IDS.length);
+    await (await contract.setNodeIndexTable(NODE_TRADER_IDS)).wait();
+    await (await contract.startMatrixBuild(1, trades.length)).wait();
+
+    await expect(contract.processMatrixBuild(11))
+      .to.emit(contract, "MatrixBuildProgress")
+      .withArgs(1, 2, trades.length);
+    const build = await contract.matrixBuild();
+    expect([build.nextId, build.nextCell]).to.deep.equal([2n, 2n]);
+
+    const options = { nodeTraderIds: NODE_TRADER_IDS, firstId: 1, lastId: trades.length, chunkSize: 5 };
+    await buildMatrixFromTransactions(contract, options);
+    expect(await decryptMatrix(contract, NODE_TRADER_IDS.length)).to.deep.equal(expected);
+  });
+
+  it("folds a trade of a 10-node matrix that exceeds the HCU limit in one transaction", async function () {
+    const nodeTraderIds = Array.from({ length: 10 }, (_, i) => 101 + i);
+    const { contract } = await deployAnalysis();
+    await submitTrades(contract, [trade(110, 103, { amount: 7 })]);
+    await initializeMatrix(contract, nodeTraderIds.length);
+    await (await contract.setNodeIndexTable(nodeTraderIds)).wait();
+    await (await contract.startMatrixBuild(1, 1)).wait();
+
+    // HCUTransactionLimitExceeded, raised by the coprocessor's HCU limit contract
+    await expect(contract.processMatrixBuild(100)).to.be.reverted;
+    await buildMatrixFromTransactions(contract, { nodeTraderIds, firstId: 1, lastId: 1 });
+
+    expect(await decryptCell(contract, 9, 2)).to.equal(7n);
+    expect(await decryptCell(contract, 2, 9)).to.equal(0n);
+  });
+});
@@ -0,0 +1,110 @@
+// test/pagerank.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import hre from "hardhat";
+import { computeCentrality, computePageRank, takeGraphSnapshot } from "../src/metrics";
+import { buildAdjacencyMatrix } from "../src/reference/graph";
+import { nodeMetrics } from "../src/reference/metrics";
+import { pageRank } from "../src/reference/pagerank";
+import { PlainTransaction } from "../src/transactions";
+import {
+  Deployment,
+  buildDenseGraph,
+  buildSparseGraph,
+  decryptUint,
+  deployAnalysis,
+  randomTrades,
+  seededRandom,
+  startSession,
+  trade,
+} from "./utils";
+
+const NODE_TRADER_IDS = [101, 102, 103, 104];
+const SINK = 104;
+
+const RUNS = [
+  { iterations: 1, dampingBps: 8_500 },
+  { iterations: 4, dampingBps: 8_500 },
+  { iterations: 3, dampingBps: 5_000 },
+  { iterations: 2, dampingBps: 0 },
+];
+
+// Every graph leaves the last node without outgoing edges, so its score is dropped each iteration
+const GRAPHS: Record<string, PlainTransaction[]> = {
+  "a ring feeding a self-trading sink": [
+    trade(101, 102),
+    trade(102, 103),
+    trade(103, 101),
+    trade(101, 104),
+    trade(102, 104),
+    trade(104, 104),
+  ],
+  "random graph 1": randomTrades(seededRandom(1), NODE_TRADER_IDS, 0.5).filter((t) => t.traderId !== SINK),
+  "random graph 2": randomTrades(seededRandom(2), NODE_TRADER_IDS, 0.5).filter((t) => t.traderId !== SINK),
+};
+
+async function decryptScores(deployment: Deployment, handles: string[]): Promise<bigint[]> {
+  const scores: bigint[] = [];
+  for (const handle of handles) {
+    scores.push(await decryptUint(deployment, handle, FhevmType.euint64));
+  }
+  return scores;
+}
+
+describe("PageRank", function () {
+  before(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  for (const [name, trades] of Object.entries(GRAPHS)) {
+    describe(name, function () {
+      const matrix = buildAdjacencyMatrix(trades, NODE_TRADER_IDS);
+      let deployment: Deployment;
+      let sessionId: bigint;
+
+      before(async function () {
+        deployment = await deployAnalysis();
+        await buildDenseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+        sessionId = await startSession(deployment.contract);
+        await computeCentrality(deployment.contract, sessionId);
+      });
+
+      it("has a node without outgoing edges", function () {
+        expect(nodeMetrics(matrix, NODE_TRADER_IDS.indexOf(SINK)).outDegree).to.equal(0);
+      });
+
+      for (const { iterations, dampingBps } of RUNS) {
+        it(`matches the reference bit for bit with ${iterations} iterations at ${dampingBps} bps`, async function () {
+          const options = { iterations, dampingBps, chunkSize: 4 };
+          const handles = await computePageRank(deployment.contract, sessionId, options);
+          expect(await decryptScores(deployment, handles)).to.deep.equal(pageRank(matrix, iterations, dampingBps));
+        });
+      }
+
+      it("matches the reference when an interrupted run is resumed", async function () {
+        const { contract } = deployment;
+        await (await contract.startPageRank(sessionId, 3, 7_000)).wait();
+        await (await contract.continuePageRank(sessionId, 5)).wait();
+        expect((await contract.getPageRankRun(sessionId)).active).to.equal(true);
+
+        const handles = await computePageRank(contract, sessionId, { chunkSize: 3 });
+        expect(await decryptScores(deployment, handles)).to.deep.equal(pageRank(matrix, 3, 7_000));
+      });
+    });
+  }
+
+  it("matches the reference in sparse mode", async function () {
+    const trades = GRAPHS["random graph 1"];
+    const deployment = await deployAnalysis();
+    await buildSparseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+    const sessionId = await startSession(deployment.contract);
+    await takeGraphSnapshot(deployment.contract, sessionId);
+    await computeCentrality(deployment.contract, sessionId);
+
+    const handles = await computePageRank(deployment.contract, sessionId, { iterations: 4, dampingBps: 8_500, chunkSize: 4 });
+    const expected = pageRank(buildAdjacencyMatrix(trades, NODE_TRADER_IDS), 4, 8_500);
+    expect(await decryptScores(deployment, handles)).to.deep.equal(expected);
+  });
+});
@@ -0,0 +1,85 @@
+// test/reachability.ts
+import { expect } from "chai";
+import hre from "hardhat";
+import { buildAdjacencyMatrix } from "../src/reference/graph";
+import { reachability } from "../src/reference/reachability";
+import {
+  Deployment,
+  buildDenseGraph,
+  buildSparseGraph,
+  decryptBool,
+  deployAnalysis,
+  randomTrades,
+  seededRandom,
+} from "./utils";
+
+const NODE_TRADER_IDS = [101, 102, 103, 104];
+
+async function decryptReachability(deployment: Deployment, resultId: bigint): Promise<boolean[]> {
+  const reached: boolean[] = [];
+  for (const handle of await deployment.contract.getReachability(resultId)) {
+    reached.push(await decryptBool(deployment, handle));
+  }
+  return reached;
+}
+
+async function fromPublicStart(deployment: Deployment, start: number, rounds: number): Promise<boolean[]> {
+  await (await deployment.contract.computeReachability(start, rounds)).wait();
+  return decryptReachability(deployment, await deployment.contract.reachabilityCount());
+}
+
+async function fromEncryptedStart(deployment: Deployment, start: number, rounds: number): Promise<boolean[]> {
+  const input = hre.fhevm.createEncryptedInput(deployment.address, deployment.signer.address);
+  const encrypted = await input.add32(start).encrypt();
+  const { contract } = deployment;
+  await (await contract.computeReachabilityFromEncrypted(encrypted.handles[0], encrypted.inputProof, rounds)).wait();
+  return decryptReachability(deployment, await contract.reachabilityCount());
+}
+
+describe("Reachability", function () {
+  before(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  for (const seed of [1, 2, 3]) {
+    describe(`random graph ${seed}`, function () {
+      const trades = randomTrades(seededRandom(seed), NODE_TRADER_IDS, 0.3);
+      const matrix = buildAdjacencyMatrix(trades, NODE_TRADER_IDS);
+      const random = seededRandom(seed * 7919);
+      const start = Math.floor(random() * NODE_TRADER_IDS.length);
+
+      it("matches the reference from a public start node in dense mode", async function () {
+        const deployment = await deployAnalysis();
+        await buildDenseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+
+        for (const rounds of [1, 2, 3]) {
+          expect(await fromPublicStart(deployment, start, rounds)).to.deep.equal(reachability(matrix, start, rounds));
+        }
+      });
+
+      it("matches the reference from an encrypted start node in dense mode", async function () {
+        const deployment = await deployAnalysis();
+        await buildDenseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+
+        expect(await fromEncryptedStart(deployment, start, 3)).to.deep.equal(reachability(matrix, start, 3));
+      });
+
+      it("matches the reference in sparse mode", async function () {
+        const deployment = await deployAnalysis();
+        await buildSparseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+
+        expect(await fromPublicStart(deployment, start, 2)).to.deep.equal(reachability(matrix, start, 2));
+        expect(await fromEncryptedStart(deployment, start, 2)).to.deep.equal(reachability(matrix, start, 2));
+      });
+    });
+  }
+
+  it("reaches nothing but the start node of a graph without edges", async function () {
+    const deployment = await deployAnalysis();
+    await buildDenseGraph(deployment.contract, NODE_TRADER_IDS, []);
+
+    expect(await fromEncryptedStart(deployment, 2, 3)).to.deep.equal([false, false, true, false]);
+  });
+});
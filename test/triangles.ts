@@ -0,0 +1,92 @@
+// test/triangles.ts
+import { expect } from "chai";
+import hre from "hardhat";
+import { TriangleCountHandles, countTriangles, takeGraphSnapshot } from "../src/metrics";
+import { buildAdjacencyMatrix } from "../src/reference/graph";
+import { TriangleCounts, countTriangles as referenceTriangles } from "../src/reference/triangles";
+import {
+  Deployment,
+  buildDenseGraph,
+  buildSparseGraph,
+  decryptUint,
+  deployAnalysis,
+  randomTrades,
+  seededRandom,
+  startSession,
+} from "./utils";
+
+const NODE_TRADER_IDS = [101, 102, 103, 104, 105];
+
+async function decryptCounts(deployment: Deployment, handles: TriangleCountHandles): Promise<TriangleCounts> {
+  const triangles: number[] = [];
+  for (const handle of handles.triangles) {
+    triangles.push(Number(await decryptUint(deployment, handle)));
+  }
+  return {
+    triangles,
+    closedTriplets: Number(await decryptUint(deployment, handles.closedTriplets)),
+    connectedTriplets: Number(await decryptUint(deployment, handles.connectedTriplets)),
+  };
+}
+
+describe("Triangle count", function () {
+  before(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  for (const seed of [1, 2, 3]) {
+    describe(`random graph ${seed}`, function () {
+      const trades = randomTrades(seededRandom(seed), NODE_TRADER_IDS, 0.4);
+      const expected = referenceTriangles(buildAdjacencyMatrix(trades, NODE_TRADER_IDS));
+      let deployment: Deployment;
+      let sessionId: bigint;
+
+      before(async function () {
+        deployment = await deployAnalysis();
+        await buildDenseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+        sessionId = await startSession(deployment.contract);
+      });
+
+      for (const chunkSize of [3, 7]) {
+        it(`matches the reference in chunks of ${chunkSize}`, async function () {
+          const handles = await countTriangles(deployment.contract, sessionId, { chunkSize });
+          expect(await decryptCounts(deployment, handles)).to.deep.equal(expected);
+        });
+      }
+
+      it("matches the reference when an interrupted count is resumed", async function () {
+        const { contract } = deployment;
+        await (await contract.startTriangleCount(sessionId)).wait();
+        await (await contract.continueTriangleCount(sessionId, 4)).wait();
+        expect((await contract.getTriangleScan(sessionId)).active).to.equal(true);
+
+        const handles = await countTriangles(contract, sessionId, { chunkSize: 5 });
+        expect(await decryptCounts(deployment, handles)).to.deep.equal(expected);
+      });
+    });
+  }
+
+  it("counts every triplet of a fully linked graph as closed", async function () {
+    const deployment = await deployAnalysis();
+    const trades = randomTrades(seededRandom(1), NODE_TRADER_IDS, 1);
+    await buildDenseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+    const sessionId = await startSession(deployment.contract);
+
+    const counts = await decryptCounts(deployment, await countTriangles(deployment.contract, sessionId));
+    expect(counts).to.deep.equal(referenceTriangles(buildAdjacencyMatrix(trades, NODE_TRADER_IDS)));
+    expect(counts.closedTriplets).to.equal(counts.connectedTriplets);
+  });
+
+  it("matches the reference in sparse mode", async function () {
+    const deployment = await deployAnalysis();
+    const trades = randomTrades(seededRandom(2), NODE_TRADER_IDS, 0.4);
+    await buildSparseGraph(deployment.contract, NODE_TRADER_IDS, trades);
+    const sessionId = await startSession(deployment.contract);
+    await takeGraphSnapshot(deployment.contract, sessionId);
+
+    const handles = await countTriangles(deployment.contract, sessionId, { chunkSize: 7 });
+    expect(await decryptCounts(deployment, handles)).to.deep.equal(referenceTriangles(buildAdjacencyMatrix(trades, NODE_TRADER_IDS)));
+  });
+});
@@ -0,0 +1,118 @@
+// test/utils.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { Contract } from "ethers";
+import hre from "hardhat";
+import { seededRandom } from "../src/benchmark";
+import { GraphMode, buildMatrixFromTransactions, initializeMatrix } from "../src/matrix";
+import { ROLES } from "../src/roles";
+import {
+  InstrumentType,
+  MAX_TRANSACTIONS_PER_PROOF,
+  PlainTransaction,
+  TradeSide,
+  submitEncryptedTransactionBatch,
+} from "../src/transactions";
+import { deployAnalysisContract } from "../tasks/utils";
+
+export { seededRandom };
+
+export interface Deployment {
+  contract: Contract;
+  address: string;
+  // Deployer: admin, regulator and broker
+  signer: HardhatEthersSigner;
+}
+
+// Fresh InsiderRingAnalysis with its modules; the deployer may also submit transactions
+export async function deployAnalysis(): Promise<Deployment> {
+  const [signer] = await hre.ethers.getSigners();
+  const contract = await deployAnalysisContract(hre);
+  await (await contract.grantRole(ROLES.broker, signer.address)).wait();
+  return { contract, address: await contract.getAddress(), signer };
+}
+
+export function trade(
+  traderId: number,
+  counterparty: number,
+  fields: Partial<PlainTransaction> = {},
+): PlainTransaction {
+  return {
+    traderId,
+    counterparty,
+    security: 1,
+    amount: 100,
+    timestamp: 1_700_000_000,
+    price: 1_000,
+    side: TradeSide.Buy,
+    instrumentType: InstrumentType.Equity,
+    ...fields,
+  };
+}
+
+// One trade per ordered pair of distinct nodes, kept with probability `density`
+export function randomTrades(random: () => number, nodeTraderIds: number[], density: number): PlainTransaction[] {
+  const trades: PlainTransaction[] = [];
+  for (const from of nodeTraderIds) {
+    for (const to of nodeTraderIds) {
+      if (from !== to && random() < density) {
+        trades.push(trade(from, to, { amount: 1 + Math.floor(random() * 1_000) }));
+      }
+    }
+  }
+  return trades;
+}
+
+export async function submitTrades(contract: Contract, trades: PlainTransaction[]): Promise<void> {
+  for (let i = 0; i < trades.length; i += MAX_TRANSACTIONS_PER_PROOF) {
+    await submitEncryptedTransactionBatch(hre.fhevm, contract, trades.slice(i, i + MAX_TRANSACTIONS_PER_PROOF));
+  }
+}
+
+// Submits the trades and builds the dense adjacency matrix of the node table from all of them
+export async function buildDenseGraph(
+  contract: Contract,
+  nodeTraderIds: number[],
+  trades: PlainTransaction[],
+): Promise<void> {
+  await submitTrades(contract, trades);
+  await initializeMatrix(contract, nodeTraderIds.length);
+  await (await contract.setNodeIndexTable(nodeTraderIds)).wait();
+  if (trades.length > 0) {
+    await buildMatrixFromTransactions(contract, { nodeTraderIds, firstId: 1, lastId: trades.length, chunkSize: 16 });
+  }
+}
+
+// Submits the trades and stores them as the sparse edges of the node table, in sparse graph mode
+export async function buildSparseGraph(
+  contract: Contract,
+  nodeTraderIds: number[],
+  trades: PlainTransaction[],
+): Promise<void> {
+  await submitTrades(contract, trades);
+  await (await contract.setGraphMode(GraphMode.Sparse)).wait();
+  await (await contract.setNodeIndexTable(nodeTraderIds)).wait();
+  if (trades.length > 0) {
+    await buildMatrixFromTransactions(contract, { nodeTraderIds, firstId: 1, lastId: trades.length, chunkSize: 4 });
+  }
+}
+
+// Creates a session over every transaction and starts it
+export async function startSession(contract: Contract): Promise<bigint> {
+  await (await contract.createAnalysisSession(0, 2_000_000_000)).wait();
+  const sessionId: bigint = await contract.sessionCount();
+  await (await contract.startRingDetection(sessionId)).wait();
+  return sessionId;
+}
+
+export async function decryptBool(deployment: Deployment, handle: string): Promise<boolean> {
+  return hre.fhevm.userDecryptEbool(handle, deployment.address, deployment.signer);
+}
+
+export async function decryptUint(
+  deployment: Deployment,
+  handle: string,
+  type: FhevmType.euint32 | FhevmType.euint64 = FhevmType.euint32,
+): Promise<bigint> {
+  return hre.fhevm.userDecryptEuint(type, handle, deployment.address, deployment.signer);
+}
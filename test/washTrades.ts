@@ -0,0 +1,69 @@
+// test/washTrades.ts
+import { expect } from "chai";
+import hre from "hardhat";
+import { initializeMatrix } from "../src/matrix";
+import { scanWashTrades, setWashTradeWindow } from "../src/patterns";
+import { countWashTrades } from "../src/reference/patterns";
+import { Deployment, decryptUint, deployAnalysis, startSession, submitTrades, trade } from "./utils";
+
+const WINDOW = 60;
+const T0 = 1_700_000_000;
+
+// Planted pattern, by trade: 1/2 wash pair 30s apart, 3 swaps the parties of 1 too late, 4
+// self-deals, 5/6 wash pair exactly at the window, 7 swaps 5 on another security and 8
+// repeats 5 one second past the window of 6
+const TRADES = [
+  trade(1, 2, { timestamp: T0 }),
+  trade(2, 1, { timestamp: T0 + 30 }),
+  trade(2, 1, { timestamp: T0 + 200 }),
+  trade(3, 3, { security: 2, timestamp: T0 }),
+  trade(4, 5, { security: 3, timestamp: T0 + 500 }),
+  trade(5, 4, { security: 3, timestamp: T0 + 500 + WINDOW }),
+  trade(5, 4, { security: 4, timestamp: T0 + 520 }),
+  trade(4, 5, { security: 3, timestamp: T0 + 500 + 2 * WINDOW + 1 }),
+];
+
+describe("Wash-trade scan", function () {
+  let deployment: Deployment;
+  let sessionId: bigint;
+
+  before(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    deployment = await deployAnalysis();
+    await submitTrades(deployment.contract, TRADES);
+    await initializeMatrix(deployment.contract, 2);
+    await setWashTradeWindow(hre.fhevm, deployment.contract, WINDOW);
+    sessionId = await startSession(deployment.contract);
+  });
+
+  it("plants the expected wash trades", function () {
+    expect(countWashTrades(TRADES, WINDOW)).to.equal(3);
+  });
+
+  for (const chunkSize of [1, 3, 8]) {
+    it(`matches the reference in chunks of ${chunkSize}`, async function () {
+      const handle = await scanWashTrades(deployment.contract, sessionId, {
+        firstId: 1,
+        lastId: TRADES.length,
+        chunkSize,
+      });
+      expect(await decryptUint(deployment, handle)).to.equal(BigInt(countWashTrades(TRADES, WINDOW)));
+    });
+  }
+
+  it("matches the reference on a sub-range", async function () {
+    const handle = await scanWashTrades(deployment.contract, sessionId, { firstId: 2, lastId: 6, chunkSize: 4 });
+    expect(await decryptUint(deployment, handle)).to.equal(BigInt(countWashTrades(TRADES.slice(1, 6), WINDOW)));
+  });
+
+  it("keeps counting where an interrupted scan stopped", async function () {
+    const { contract } = deployment;
+    await (await contract.startWashTradeScan(sessionId, 1, TRADES.length)).wait();
+    await (await contract.continueWashTradeScan(sessionId, 5)).wait();
+
+    const handle = await scanWashTrades(contract, sessionId, { firstId: 1, lastId: TRADES.length, chunkSize: 7 });
+    expect(await decryptUint(deployment, handle)).to.equal(BigInt(countWashTrades(TRADES, WINDOW)));
+  });
+});